@@ -4,7 +4,12 @@ import { getMongoClient } from "./core/mongo.js";
 import { CommandUsageService } from "./services/CommandUsageService.js";
 import { GameLeaderboardService } from "./services/GameLeaderboardService.js";
 import { BotClient } from "./core/BotClient.js";
-import { getBotConfigService } from "./core/config.js";
+import { CommandHandler } from "./core/CommandHandler.js";
+import {
+  getBanService,
+  getBotConfigService,
+  getCurrentConfig,
+} from "./core/config.js";
 import QRCode from "qrcode";
 
 const app = new Hono();
@@ -188,6 +193,59 @@ app.post("/api/config/roles/:action", async (c) => {
   }
 });
 
+// REST API: List active bans
+app.get("/api/bans", async (c) => {
+  try {
+    const banService = await getBanService();
+    return c.json(await banService.list());
+  } catch (err) {
+    return c.json({ error: "Failed to fetch bans" }, 500);
+  }
+});
+
+// REST API: Ban a user ({ userJid, reason?, durationMs? }; permanent without durationMs)
+app.post("/api/bans", async (c) => {
+  try {
+    const { userJid, reason, durationMs } = await c.req.json();
+    if (!userJid) {
+      return c.json({ error: "Missing userJid in request body" }, 400);
+    }
+    if (
+      durationMs !== undefined &&
+      (typeof durationMs !== "number" || durationMs <= 0)
+    ) {
+      return c.json({ error: "durationMs must be a positive number" }, 400);
+    }
+
+    const jid = userJid.includes("@") ? userJid : userJid + JID_SUFFIX;
+    const config = await getCurrentConfig();
+    if (config.admins.includes(jid)) {
+      return c.json({ error: "Bot admins cannot be banned" }, 400);
+    }
+
+    const banService = await getBanService();
+    const ban = await banService.ban(jid, "api", reason, durationMs);
+    return c.json(ban);
+  } catch (err) {
+    return c.json({ error: "Failed to ban user" }, 500);
+  }
+});
+
+// REST API: Lift a ban
+app.delete("/api/bans/:jid", async (c) => {
+  try {
+    const userJid = c.req.param("jid");
+    const jid = userJid.includes("@") ? userJid : userJid + JID_SUFFIX;
+    const banService = await getBanService();
+    if (!(await banService.unban(jid))) {
+      return c.json({ error: "User is not banned" }, 404);
+    }
+    return c.json({ message: "User unbanned successfully" });
+  } catch (err) {
+    return c.json({ error: "Failed to unban user" }, 500);
+  }
+});
+
 // REST API: Get current QR code as image for WhatsApp authentication
 app.get("/api/qr", async (c) => {
   try {
@@ -336,6 +394,27 @@ export function broadcastQRUpdate(
   });
 }
 
+// REST API: Get registered commands and registry validation issues
+app.get("/api/commands", async (c) => {
+  const botClient = getBotClient();
+  const commandHandler: CommandHandler | undefined =
+    botClient && (botClient as any)["commandHandler"];
+  if (!commandHandler) {
+    return c.json({ error: "Bot is not ready" }, 503);
+  }
+
+  const commands = commandHandler
+    .getAllCommands()
+    .map(({ name, aliases, category, description, cooldown }) => ({
+      name,
+      aliases: aliases ?? [],
+      category,
+      description,
+      cooldown,
+    }));
+  return c.json({ commands, issues: commandHandler.getRegistryIssues() });
+});
+
 // REST API: Get bot connection status
 app.get("/api/status", async (c) => {
   try {
@@ -0,0 +1,171 @@
+import { proto } from "baileys";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import {
+  getCurrentConfig,
+  getUserPreferenceService,
+  log,
+} from "../core/config.js";
+import { formatUsage } from "../core/arguments.js";
+
+const MAX_ALIASES = 10;
+const MAX_COMMAND_LENGTH = 200;
+// Also keeps the name safe to use as a MongoDB field name
+const ALIAS_PATTERN = /^[a-z0-9_-]{1,20}$/;
+
+export class AliasCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "alias",
+    description: "Buat shortcut perintah pribadi",
+    category: "utility",
+    commandClass: AliasCommand,
+    argSchema: {
+      subcommands: [
+        {
+          name: "add",
+          aliases: ["set", "tambah"],
+          description: "Buat atau ganti alias",
+          args: [
+            { name: "name", type: "string", description: "Nama alias" },
+            {
+              name: "command",
+              type: "string",
+              rest: true,
+              description: "Perintah beserta argumennya, tanpa prefix",
+            },
+          ],
+        },
+        {
+          name: "remove",
+          aliases: ["rm", "del", "hapus"],
+          description: "Hapus alias",
+          args: [{ name: "name", type: "string" }],
+        },
+        {
+          name: "list",
+          aliases: ["ls"],
+          description: "Lihat semua alias kamu",
+        },
+      ],
+      examples: ["alias add dlm dl audio", "alias remove dlm", "alias list"],
+    },
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    const parsed = invocation?.parsed;
+    if (!parsed) {
+      await sock.sendMessage(jid, {
+        text: `*Penggunaan:*\n${formatUsage(
+          AliasCommand.commandInfo,
+          config.prefix
+        )}`,
+      });
+      return;
+    }
+
+    try {
+      const service = await getUserPreferenceService();
+      const aliases = (await service.get(user))?.customAliases ?? {};
+
+      if (parsed.subcommand === "list") {
+        const entries = Object.entries(aliases);
+        await sock.sendMessage(jid, {
+          text:
+            entries.length === 0
+              ? `Kamu belum punya alias. Buat dengan ${config.prefix}alias add <nama> <perintah>.`
+              : `*Alias kamu (${entries.length}/${MAX_ALIASES}):*\n${entries
+                  .map(
+                    ([name, command]) =>
+                      `• ${config.prefix}${name} → ${config.prefix}${command}`
+                  )
+                  .join("\n")}`,
+        });
+        return;
+      }
+
+      const name = String(parsed.values.name).toLowerCase();
+
+      if (parsed.subcommand === "remove") {
+        if (!Object.hasOwn(aliases, name)) {
+          await sock.sendMessage(jid, {
+            text: `${config.emoji.error} Alias *${name}* tidak ditemukan.`,
+          });
+          return;
+        }
+        await service.removeAlias(user, name);
+        await sock.sendMessage(jid, {
+          text: `${config.emoji.success} Alias *${name}* dihapus.`,
+        });
+        return;
+      }
+
+      // Accept commands typed with a prefix, e.g. "!alias add dlm !dl audio"
+      let command = String(parsed.values.command).trim();
+      const prefix = [config.prefix, ...config.alternativePrefixes].find(
+        (p) => p && command.startsWith(p)
+      );
+      if (prefix) command = command.slice(prefix.length).trim();
+
+      const error = this.validate(name, command, aliases);
+      if (error) {
+        await sock.sendMessage(jid, {
+          text: `${config.emoji.error} ${error}`,
+        });
+        return;
+      }
+
+      await service.setAlias(user, name, command);
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.success} Alias dibuat: ${config.prefix}${name} → ${config.prefix}${command}`,
+      });
+    } catch (error) {
+      log.error("Error in alias command:", error);
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Terjadi error saat memproses alias.`,
+      });
+    }
+  }
+
+  private validate(
+    name: string,
+    command: string,
+    aliases: Record<string, string>
+  ): string | null {
+    if (!ALIAS_PATTERN.test(name)) {
+      return "Nama alias hanya boleh huruf, angka, - dan _ (maksimal 20 karakter).";
+    }
+    if (name === AliasCommand.commandInfo.name) {
+      return "Nama alias tersebut tidak dapat digunakan.";
+    }
+    if (!command) {
+      return "Perintah tujuan alias wajib diisi.";
+    }
+    if (command.length > MAX_COMMAND_LENGTH) {
+      return `Perintah tujuan maksimal ${MAX_COMMAND_LENGTH} karakter.`;
+    }
+    if (command.split(/\s+/)[0].toLowerCase() === name) {
+      return "Alias tidak boleh merujuk dirinya sendiri.";
+    }
+    if (
+      !Object.hasOwn(aliases, name) &&
+      Object.keys(aliases).length >= MAX_ALIASES
+    ) {
+      return `Kamu sudah mencapai batas ${MAX_ALIASES} alias. Hapus salah satu terlebih dahulu.`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,125 @@
+import { proto } from "baileys";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import { getCurrentConfig, log } from "../core/config.js";
+import { formatUsage } from "../core/arguments.js";
+import { floodGuard } from "../core/FloodGuard.js";
+
+export class AntiSpamCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "antispam",
+    aliases: ["spam", "flood"],
+    description: "Lihat dan cabut mute dari proteksi flood (admin only)",
+    category: "admin",
+    commandClass: AntiSpamCommand,
+    requiredRoles: ["admin"],
+    argSchema: {
+      subcommands: [
+        {
+          name: "list",
+          aliases: ["ls"],
+          description: "Lihat user dan grup yang sedang di-mute",
+        },
+        {
+          name: "unmute",
+          aliases: ["lift", "buka"],
+          description: "Cabut mute user atau grup (default: chat ini)",
+          args: [
+            {
+              name: "target",
+              type: "jid",
+              required: false,
+              description: "Mention, nomor atau JID user/grup",
+            },
+          ],
+          flags: [
+            {
+              name: "reset",
+              alias: "r",
+              type: "boolean",
+              description: "Hapus juga riwayat pelanggaran",
+            },
+          ],
+        },
+      ],
+      examples: [
+        "antispam list",
+        "antispam unmute @628123456789",
+        "antispam unmute --reset",
+      ],
+    },
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    const parsed = invocation?.parsed;
+    if (!parsed) {
+      await sock.sendMessage(jid, {
+        text: `*Penggunaan:*\n${formatUsage(
+          AntiSpamCommand.commandInfo,
+          config.prefix
+        )}`,
+      });
+      return;
+    }
+
+    try {
+      if (parsed.subcommand === "list") {
+        const mutes = floodGuard.getMutes();
+        if (mutes.length === 0) {
+          await sock.sendMessage(jid, {
+            text: "Tidak ada user atau grup yang sedang di-mute.",
+          });
+          return;
+        }
+
+        const now = Date.now();
+        const lines = mutes.map((mute) => {
+          const minutes = Math.ceil((mute.mutedUntil - now) / 60000);
+          const label =
+            mute.scope === "user" ? `@${mute.key.split("@")[0]}` : mute.key;
+          return `• ${label} (${mute.scope}) — sisa ${minutes} menit, pelanggaran ke-${mute.strikes}`;
+        });
+        await sock.sendMessage(jid, {
+          text: `*Mute aktif (${mutes.length}):*\n${lines.join("\n")}`,
+          mentions: mutes
+            .filter((mute) => mute.scope === "user")
+            .map((mute) => mute.key),
+        });
+        return;
+      }
+
+      const target = (parsed.values.target as string | undefined) ?? jid;
+      const forgive = parsed.flags.reset === true;
+      const lifted = floodGuard.unmute(target, forgive);
+
+      await sock.sendMessage(jid, {
+        text: lifted
+          ? `${config.emoji.success} Mute untuk ${target} dicabut.${
+              forgive ? " Riwayat pelanggaran dihapus." : ""
+            }`
+          : `${config.emoji.info} ${target} sedang tidak di-mute.${
+              forgive ? " Riwayat pelanggaran dihapus." : ""
+            }`,
+      });
+    } catch (error) {
+      log.error("Error in antispam command:", error);
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Terjadi error saat memproses antispam.`,
+      });
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { proto } from "baileys";
-import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
-import { WebSocketInfo } from "../core/types.js";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import { BotConfig, log } from "../core/config.js";
 import { AIConversationService } from "../services/AIConversationService.js";
@@ -50,9 +54,10 @@ export class AskAICommand extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
-    msg: proto.IWebMessageInfo
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
   ): Promise<void> {
     // Handle subcommands
     if (args.length > 0) {
@@ -78,12 +83,14 @@ export class AskAICommand extends CommandInterface {
 
     // Get the prompt from args or quoted message
     let quotedText = "";
-    let prompt = args.join(" ").trim();
+    // Raw text keeps line breaks of multi-line prompts
+    let prompt = (invocation?.raw ?? args.join(" ")).trim();
     const userPushName = msg.pushName;
 
+    // Piped input ("!lyrics judul | ai ringkas") arrives as a quoted message
     if (
       msg?.message?.extendedTextMessage?.contextInfo?.quotedMessage &&
-      args.length === 0
+      (args.length === 0 || invocation?.input !== undefined)
     ) {
       const quoted = msg.message.extendedTextMessage.contextInfo.quotedMessage;
       if (quoted?.conversation) quotedText = quoted.conversation;
@@ -184,7 +191,7 @@ export class AskAICommand extends CommandInterface {
   private async handleStatusCommand(
     user: string,
     jid: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
     const sessionInfo = this.conversationService.getSessionInfo(user);
@@ -216,7 +223,7 @@ export class AskAICommand extends CommandInterface {
   private async handleEndCommand(
     user: string,
     jid: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
     const hadSession = await this.conversationService.endSession(user);
@@ -275,7 +282,7 @@ export class AskAICommand extends CommandInterface {
     userPushName: string | null | undefined,
     groupContext?: string,
     jid?: string,
-    sock?: WebSocketInfo,
+    sock?: ChatTransport,
     msg?: proto.IWebMessageInfo
   ): Promise<string> {
     try {
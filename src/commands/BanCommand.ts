@@ -0,0 +1,94 @@
+import { proto } from "baileys";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import { getBanService, getCurrentConfig, log } from "../core/config.js";
+import { formatUsage } from "../core/arguments.js";
+import { formatDuration, parseDuration } from "../utils/duration.js";
+
+export class BanCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "ban",
+    aliases: ["blokir"],
+    description: "Larang user memakai bot (admin only)",
+    category: "admin",
+    commandClass: BanCommand,
+    requiredRoles: ["admin"],
+    argSchema: {
+      args: [
+        { name: "user", type: "jid", description: "Mention, nomor atau JID" },
+        {
+          name: "reason",
+          type: "string",
+          required: false,
+          rest: true,
+          description:
+            "Durasi opsional di awal (30m, 12h, 7d, 2w) lalu alasan ban",
+        },
+      ],
+      examples: ["ban @628123456789 7d spam stiker", "ban 628123456789"],
+    },
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    const parsed = invocation?.parsed;
+    if (!parsed) {
+      await sock.sendMessage(jid, {
+        text: `*Penggunaan:*\n${formatUsage(
+          BanCommand.commandInfo,
+          config.prefix
+        )}`,
+      });
+      return;
+    }
+
+    const target = String(parsed.values.user);
+    if (target === user || config.admins.includes(target)) {
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Admin bot tidak dapat di-ban.`,
+      });
+      return;
+    }
+
+    // "7d spam stiker" -> 7 days, reason "spam stiker"
+    let reason = (parsed.values.reason as string | undefined)?.trim() ?? "";
+    const [first, ...rest] = reason.split(/\s+/);
+    const durationMs = first ? parseDuration(first) : null;
+    if (durationMs) reason = rest.join(" ");
+
+    try {
+      const service = await getBanService();
+      await service.ban(
+        target,
+        user,
+        reason || undefined,
+        durationMs ?? undefined
+      );
+
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.success} @${target.split("@")[0]} di-ban ${
+          durationMs ? `selama ${formatDuration(durationMs)}` : "permanen"
+        }.${reason ? `\nAlasan: ${reason}` : ""}`,
+        mentions: [target],
+      });
+    } catch (error) {
+      log.error("Error in ban command:", error);
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Gagal menyimpan ban.`,
+      });
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { proto } from "baileys";
+import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import { getBanService, getCurrentConfig, log } from "../core/config.js";
+import { formatDuration } from "../utils/duration.js";
+
+export class BanListCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "banlist",
+    aliases: ["bans"],
+    description: "Lihat daftar user yang di-ban (admin only)",
+    category: "admin",
+    commandClass: BanListCommand,
+    requiredRoles: ["admin"],
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    try {
+      const service = await getBanService();
+      const bans = await service.list();
+      if (bans.length === 0) {
+        await sock.sendMessage(jid, { text: "Belum ada user yang di-ban." });
+        return;
+      }
+
+      const now = Date.now();
+      const lines = bans.map((ban) => {
+        const expiry = ban.expiresAt
+          ? `sisa ${formatDuration(ban.expiresAt.getTime() - now)}`
+          : "permanen";
+        return `• @${ban.user.split("@")[0]} — ${expiry}${
+          ban.reason ? `\n  Alasan: ${ban.reason}` : ""
+        }`;
+      });
+
+      await sock.sendMessage(jid, {
+        text: `*Daftar ban (${bans.length}):*\n${lines.join("\n")}`,
+        mentions: bans.map((ban) => ban.user),
+      });
+    } catch (error) {
+      log.error("Error in banlist command:", error);
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Gagal mengambil daftar ban.`,
+      });
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { proto } from "baileys";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import { getCurrentConfig } from "../core/config.js";
+import { JobInfo, jobQueue } from "../core/JobQueue.js";
+
+const MAX_LABEL_LENGTH = 60;
+
+export class CancelCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "cancel",
+    aliases: ["batal"],
+    description: "Batalkan download atau proses lain yang masih di antrian",
+    category: "utility",
+    commandClass: CancelCommand,
+    argSchema: {
+      args: [
+        {
+          name: "id",
+          type: "number",
+          required: false,
+          min: 1,
+          description: "ID proses; semua proses kamu jika dikosongkan",
+        },
+      ],
+      examples: ["cancel", "cancel 12"],
+    },
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    const id = invocation?.parsed?.values.id as number | undefined;
+
+    const cancelled = jobQueue.cancel(user, id);
+    if (cancelled.length === 0) {
+      await sock.sendMessage(jid, {
+        text:
+          id === undefined
+            ? `${config.emoji.info} Kamu tidak punya proses di antrian.`
+            : `${config.emoji.error} Proses #${id} tidak ditemukan.`,
+      });
+      return;
+    }
+
+    await sock.sendMessage(jid, {
+      text: `${config.emoji.success} Dibatalkan:\n${cancelled
+        .map((job) => `• ${this.describe(job)}`)
+        .join("\n")}`,
+    });
+  }
+
+  private describe(job: JobInfo): string {
+    const label =
+      job.label.length > MAX_LABEL_LENGTH
+        ? `${job.label.slice(0, MAX_LABEL_LENGTH)}…`
+        : job.label;
+    const state =
+      job.state === "running" ? "sedang berjalan" : `antrian #${job.position}`;
+    return `#${job.id} ${job.type} (${state}): ${label}`;
+  }
+}
@@ -1,5 +1,12 @@
-import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
-import { WebSocketInfo } from "../core/types.js";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ArgDefinition } from "../core/arguments.js";
+import { LANGUAGES, isLanguage } from "../core/i18n.js";
+import { MENU_STYLES, isMenuStyle } from "../core/MenuManager.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import { proto } from "baileys";
 import {
@@ -7,21 +14,53 @@ import {
   getBotConfigService,
   getCurrentConfig,
   log,
+  BotConfig,
+  CommandBudget,
+  CooldownPolicy,
+  USER_ROLES,
+  isUserRole,
 } from "../core/config.js";
 import {
   BotConfigService,
   StoredBotConfig,
 } from "../services/BotConfigService.js";
 
+const ROLE_TARGET: ArgDefinition[] = [
+  { name: "user", type: "jid", description: "Mention, nomor atau JID user" },
+];
+
 export class ConfigCommand extends CommandInterface {
   static commandInfo: CommandInfo = {
     name: "config",
     aliases: ["cfg", "konfig"],
     description: "Manage bot configuration (admin only)",
-    helpText: `*Usage:*
-• config get [<parameter>] — Get current configuration or specific parameter
-• config set <parameter> <value> — Set a configuration parameter
-• config reset — Reset configuration to default values`,
+    argSchema: {
+      // A bare "config" shows the help
+      subcommandRequired: false,
+      subcommands: [
+        {
+          name: "get",
+          description: "Get current configuration or specific parameter",
+          args: [{ name: "parameter", type: "string", required: false }],
+        },
+        {
+          name: "set",
+          description: "Set a configuration parameter",
+          args: [
+            { name: "parameter", type: "string" },
+            { name: "value", type: "string", rest: true },
+          ],
+        },
+        { name: "reset", description: "Reset configuration to default values" },
+        { name: "add-admin", args: ROLE_TARGET },
+        { name: "remove-admin", args: ROLE_TARGET },
+        { name: "add-mod", args: ROLE_TARGET },
+        { name: "remove-mod", args: ROLE_TARGET },
+        { name: "add-vip", args: ROLE_TARGET },
+        { name: "remove-vip", args: ROLE_TARGET },
+      ],
+      examples: ["config get prefix", "config set name My Bot"],
+    },
     category: "admin",
     commandClass: ConfigCommand,
     requiredRoles: ["admin"],
@@ -31,9 +70,10 @@ export class ConfigCommand extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
-    message: proto.IWebMessageInfo
+    message: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
   ): Promise<void> {
     const chatId = jid;
     const senderId = user;
@@ -52,9 +92,13 @@ export class ConfigCommand extends CommandInterface {
       return;
     }
 
-    const action = args[0].toLowerCase();
+    const action = invocation?.parsed?.subcommand ?? args[0].toLowerCase();
     const configService = await getBotConfigService();
 
+    // Role subcommands get a normalized JID from the argument schema
+    const target = invocation?.parsed?.values.user;
+    const roleArgs = target ? [String(target)] : args.slice(1);
+
     try {
       switch (action) {
         case "get":
@@ -64,7 +108,12 @@ export class ConfigCommand extends CommandInterface {
           await this.handleSet(
             sock,
             chatId,
-            args.slice(1),
+            invocation?.parsed
+              ? [
+                  String(invocation.parsed.values.parameter),
+                  String(invocation.parsed.values.value),
+                ]
+              : args.slice(1),
             configService,
             senderId
           );
@@ -76,7 +125,7 @@ export class ConfigCommand extends CommandInterface {
           await this.handleAddRole(
             sock,
             chatId,
-            args.slice(1),
+            roleArgs,
             configService,
             "admin",
             senderId
@@ -86,7 +135,7 @@ export class ConfigCommand extends CommandInterface {
           await this.handleRemoveRole(
             sock,
             chatId,
-            args.slice(1),
+            roleArgs,
             configService,
             "admin",
             senderId
@@ -96,7 +145,7 @@ export class ConfigCommand extends CommandInterface {
           await this.handleAddRole(
             sock,
             chatId,
-            args.slice(1),
+            roleArgs,
             configService,
             "moderator",
             senderId
@@ -106,7 +155,7 @@ export class ConfigCommand extends CommandInterface {
           await this.handleRemoveRole(
             sock,
             chatId,
-            args.slice(1),
+            roleArgs,
             configService,
             "moderator",
             senderId
@@ -116,7 +165,7 @@ export class ConfigCommand extends CommandInterface {
           await this.handleAddRole(
             sock,
             chatId,
-            args.slice(1),
+            roleArgs,
             configService,
             "vip",
             senderId
@@ -126,7 +175,7 @@ export class ConfigCommand extends CommandInterface {
           await this.handleRemoveRole(
             sock,
             chatId,
-            args.slice(1),
+            roleArgs,
             configService,
             "vip",
             senderId
@@ -144,7 +193,7 @@ export class ConfigCommand extends CommandInterface {
   }
 
   private async handleGet(
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     chatId: string,
     args: string[],
     configService: BotConfigService
@@ -164,6 +213,9 @@ export class ConfigCommand extends CommandInterface {
 • Session Timeout: ${config.sessionTimeout / 1000}s
 • Allow From Me: ${config.allowFromMe ? "Ya" : "Tidak"}
 • Disable Warning: ${config.disableWarning ? "Ya" : "Tidak"}
+• Bahasa: ${config.language}
+• Menu: ${config.menuStyle}
+• Edit Replies: ${config.editReplies ? "Ya" : "Tidak"}
 
 *Game Settings:*
 • Default Game Help: ${config.defaultGameHelp}
@@ -213,6 +265,15 @@ export class ConfigCommand extends CommandInterface {
         case "disablewarning":
           value = config.disableWarning;
           break;
+        case "language":
+          value = config.language;
+          break;
+        case "menu":
+          value = config.menuStyle;
+          break;
+        case "editreplies":
+          value = config.editReplies;
+          break;
         case "maintenance":
           value = config.maintenanceMode ? "Ya" : "Tidak";
           break;
@@ -225,6 +286,9 @@ export class ConfigCommand extends CommandInterface {
         case "vips":
           value = config.vips.join("\\n");
           break;
+        case "cooldownpolicy":
+          value = `\n${JSON.stringify(config.cooldownPolicy, null, 2)}`;
+          break;
         default:
           await sock.sendMessage(chatId, {
             text: `❌ Parameter '${param}' tidak ditemukan.`,
@@ -239,7 +303,7 @@ export class ConfigCommand extends CommandInterface {
   }
 
   private async handleSet(
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     chatId: string,
     args: string[],
     configService: BotConfigService,
@@ -305,11 +369,46 @@ export class ConfigCommand extends CommandInterface {
           value.toLowerCase() === "true" || value.toLowerCase() === "ya";
         updateData.disableWarning = disableWarning;
         break;
+      case "language":
+        if (!isLanguage(value)) {
+          await sock.sendMessage(chatId, {
+            text: `❌ Bahasa harus salah satu dari: ${Object.keys(
+              LANGUAGES
+            ).join(", ")}.`,
+          });
+          return;
+        }
+        updateData.language = value;
+        break;
+      case "menu":
+        if (!isMenuStyle(value)) {
+          await sock.sendMessage(chatId, {
+            text: `❌ Tampilan menu harus salah satu dari: ${MENU_STYLES.join(
+              ", "
+            )}.`,
+          });
+          return;
+        }
+        updateData.menuStyle = value;
+        break;
+      case "editreplies":
+        const editReplies =
+          value.toLowerCase() === "true" || value.toLowerCase() === "ya";
+        updateData.editReplies = editReplies;
+        break;
       case "maintenance":
         const maintenanceMode =
           value.toLowerCase() === "true" || value.toLowerCase() === "ya";
         updateData.maintenanceMode = maintenanceMode;
         break;
+      case "cooldownpolicy":
+        const policy = this.parseCooldownPolicy(value);
+        if (typeof policy === "string") {
+          await sock.sendMessage(chatId, { text: `❌ ${policy}` });
+          return;
+        }
+        updateData.cooldownPolicy = policy;
+        break;
       default:
         await sock.sendMessage(chatId, {
           text: `❌ Parameter '${param}' tidak dapat diubah melalui command ini.`,
@@ -330,8 +429,71 @@ export class ConfigCommand extends CommandInterface {
     }
   }
 
+  /**
+   * Parse a JSON cooldown policy, returning an error message when invalid
+   */
+  private parseCooldownPolicy(value: string): Partial<CooldownPolicy> | string {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return "Cooldown policy harus berupa JSON yang valid.";
+    }
+    if (!isRecord(parsed)) {
+      return "Cooldown policy harus berupa objek JSON.";
+    }
+
+    const policy: Partial<CooldownPolicy> = {};
+    for (const [key, entry] of Object.entries(parsed)) {
+      switch (key) {
+        case "exemptRoles":
+          if (!Array.isArray(entry) || !entry.every(isUserRole)) {
+            return `exemptRoles harus berupa array role (${USER_ROLES.join(
+              ", "
+            )}).`;
+          }
+          policy.exemptRoles = entry;
+          break;
+        case "maxUsesMultiplier":
+          if (
+            !isPositiveNumberMap(entry) ||
+            !Object.keys(entry).every(isUserRole)
+          ) {
+            return `maxUsesMultiplier harus berisi angka positif per role (${USER_ROLES.join(
+              ", "
+            )}).`;
+          }
+          policy.maxUsesMultiplier = entry;
+          break;
+        case "cooldownMultiplier":
+          if (
+            !isPositiveNumberMap(entry) ||
+            !Object.keys(entry).every((k) => k === "group" || k === "private")
+          ) {
+            return "cooldownMultiplier harus berisi angka positif untuk group dan/atau private.";
+          }
+          // Unset chat types keep the default multiplier
+          policy.cooldownMultiplier = {
+            ...BotConfig.cooldownPolicy.cooldownMultiplier,
+            ...entry,
+          };
+          break;
+        case "groupBudgets":
+          if (!isBudgetMap(entry)) {
+            return "groupBudgets harus berisi { maxUses, windowMs } untuk tiap perintah.";
+          }
+          policy.groupBudgets = entry;
+          break;
+        default:
+          return `Kunci '${key}' tidak dikenal.`;
+      }
+    }
+
+    return policy;
+  }
+
   private async handleReset(
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     chatId: string,
     configService: BotConfigService,
     senderId: string
@@ -350,7 +512,7 @@ export class ConfigCommand extends CommandInterface {
   }
 
   private async handleAddRole(
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     chatId: string,
     args: string[],
     configService: BotConfigService,
@@ -379,7 +541,7 @@ export class ConfigCommand extends CommandInterface {
   }
 
   private async handleRemoveRole(
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     chatId: string,
     args: string[],
     configService: BotConfigService,
@@ -411,7 +573,7 @@ export class ConfigCommand extends CommandInterface {
     }
   }
 
-  private async showHelp(sock: WebSocketInfo, chatId: string): Promise<void> {
+  private async showHelp(sock: ChatTransport, chatId: string): Promise<void> {
     const helpText = `
 🛠️ *Config Command Help*
 
@@ -427,8 +589,12 @@ export class ConfigCommand extends CommandInterface {
 • \`config set allowfromme <true/false>\` - Izinkan command dari bot
 • \`config set allowmentionprefix <true/false>\` - Izinkan mention prefix
 • \`config set disablewarning <true/false>\` - Aktifkan/Nonaktifkan warning
+• \`config set language <id/en>\` - Ubah bahasa bawaan bot
+• \`config set menu <poll/text>\` - Ubah tampilan menu pilihan
+• \`config set editreplies <true/false>\` - Edit balasan lama saat perintah diedit
 • \`config set defaultgamehelp <text>\` - Ubah pesan help game
 • \`config set unknowncommandresponse <text>\` - Ubah pesan command tidak dikenal
+• \`config set cooldownpolicy <json>\` - Ubah kebijakan cooldown (role, grup, budget)
 
 *Mengelola User Roles:*
 • \`config add-admin <user_jid>\` - Tambah admin
@@ -445,3 +611,29 @@ export class ConfigCommand extends CommandInterface {
     await sock.sendMessage(chatId, { text: helpText });
   }
 }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumberMap(value: unknown): value is Record<string, number> {
+  return (
+    isRecord(value) &&
+    Object.values(value).every((n) => typeof n === "number" && n > 0)
+  );
+}
+
+function isCommandBudget(value: unknown): value is CommandBudget {
+  return (
+    isRecord(value) &&
+    typeof value.maxUses === "number" &&
+    Number.isInteger(value.maxUses) &&
+    value.maxUses > 0 &&
+    typeof value.windowMs === "number" &&
+    value.windowMs >= 1000
+  );
+}
+
+function isBudgetMap(value: unknown): value is Record<string, CommandBudget> {
+  return isRecord(value) && Object.values(value).every(isCommandBudget);
+}
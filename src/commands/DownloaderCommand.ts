@@ -1,12 +1,17 @@
 import axios, { AxiosResponse } from "axios";
 import { proto } from "baileys";
-import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
 import { BotConfig, getCurrentConfig, log } from "../core/config.js";
-import { WebSocketInfo } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import extractUrlsFromText from "../utils/extractUrlsFromText.js";
 import { mimeType } from "mime-type/with-db";
 import { convertMp3ToOgg } from "../utils/ffmpeg.js";
+import { runQueuedJob } from "../core/JobQueue.js";
 
 type Status = "tunnel" | "redirect" | "error" | "picker" | "local-processing";
 
@@ -97,9 +102,10 @@ ${BotConfig.prefix}downloader https://vt.tiktok.com/ZSrG9QPK7/`,
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
-    msg: proto.IWebMessageInfo
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
   ): Promise<void> {
     const config = await getCurrentConfig();
     // 1. Handle help and url subcommands first
@@ -178,6 +184,21 @@ ${BotConfig.prefix}downloader https://vt.tiktok.com/ZSrG9QPK7/`,
       return;
     }
 
+    await runQueuedJob(
+      sock,
+      { type: "download", user, jid, label: url },
+      (signal) => this.downloadAndSend(url!, downloadMode, jid, sock, signal),
+      invocation?.language
+    );
+  }
+
+  private async downloadAndSend(
+    url: string,
+    downloadMode: "auto" | "audio" | "mute",
+    jid: string,
+    sock: ChatTransport,
+    signal: AbortSignal
+  ): Promise<void> {
     // 4. Download and send media
     log.info("Downloading media from URL:", url);
 
@@ -201,6 +222,7 @@ ${BotConfig.prefix}downloader https://vt.tiktok.com/ZSrG9QPK7/`,
 
         let successCount = 0;
         for (const singleUrl of mediaResponse) {
+          if (signal.aborted) return;
           try {
             if (singleUrl.type === "photo") {
               await sock.sendMessage(jid, {
@@ -253,6 +275,7 @@ ${BotConfig.prefix}downloader https://vt.tiktok.com/ZSrG9QPK7/`,
             try {
               const resp = await axios.get(mediaResponse.url, {
                 responseType: "arraybuffer",
+                signal,
                 family: 4,
                 timeout: 30000, // Increased timeout for audio files
                 maxContentLength: 50 * 1024 * 1024, // 50MB limit
@@ -268,7 +291,7 @@ ${BotConfig.prefix}downloader https://vt.tiktok.com/ZSrG9QPK7/`,
               }
 
               // Convert MP3 to OGG if needed
-              const oggBuffer = await convertMp3ToOgg(audioBuffer);
+              const oggBuffer = await convertMp3ToOgg(audioBuffer, { signal });
 
               await sock.sendMessage(jid, {
                 audio: oggBuffer,
@@ -280,6 +303,7 @@ ${BotConfig.prefix}downloader https://vt.tiktok.com/ZSrG9QPK7/`,
                 text: `🎵 Audio udah sampe! Gw convert ke OGG biar WA-nya happy~\n\nKalo mau format asli ya langsung aja: ${mediaResponse.url}`,
               });
             } catch (audioError) {
+              if (signal.aborted) return;
               log.error("Failed to process audio:", audioError);
               await sock.sendMessage(jid, {
                 text: `💔 Yah, audio-nya error pas diproses. Langsung download aja ya: ${mediaResponse.url}`,
@@ -302,6 +326,8 @@ ${BotConfig.prefix}downloader https://vt.tiktok.com/ZSrG9QPK7/`,
 
       log.info("Media download completed for URL:", url);
     } catch (unexpectedError) {
+      // Cancelled with !cancel; the user already got a confirmation
+      if (signal.aborted) return;
       log.error("Unexpected error in handleCommand:", unexpectedError);
       await sock.sendMessage(jid, {
         text: "💀 Yah ada error yang aneh nih. Coba lagi aja nanti ya bestie! 🥺",
@@ -1,7 +1,7 @@
 import axios from "axios";
 import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
 import { BotConfig, log } from "../core/config.js";
-import { WebSocketInfo } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import {
   getRandomFufufafaComment,
@@ -37,7 +37,7 @@ export class FufufafaComments extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
@@ -74,7 +74,7 @@ export class FufufafaComments extends CommandInterface {
 
       if (msg.message?.extendedTextMessage?.contextInfo?.quotedMessage) {
         const quotedMessage = msg.message?.extendedTextMessage?.contextInfo;
-        const botId = sock.authState.creds.me?.id.split(":")[0] || null;
+        const botId = sock.user?.id.split(":")[0] || null;
         const quoted = {
           key: {
             remoteJid: jid,
@@ -0,0 +1,357 @@
+import { proto } from "baileys";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import {
+  getCurrentConfig,
+  getGroupSettingService,
+  log,
+} from "../core/config.js";
+import { getContextualRoles } from "../core/roles.js";
+import { formatUsage } from "../core/arguments.js";
+import { GroupSetting } from "../services/GroupSettingService.js";
+import { LANGUAGES, isLanguage } from "../core/i18n.js";
+import { findClosest } from "../core/suggestions.js";
+
+const CATEGORIES: CommandInfo["category"][] = [
+  "game",
+  "general",
+  "admin",
+  "utility",
+];
+
+// Commands that must stay reachable so the group can always be reconfigured
+const PROTECTED_COMMANDS = ["group", "grup", "gc"];
+
+export class GroupCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "group",
+    aliases: ["grup", "gc"],
+    description: "Kelola pengaturan bot untuk grup ini (admin grup)",
+    category: "admin",
+    commandClass: GroupCommand,
+    argSchema: {
+      subcommands: [
+        {
+          name: "info",
+          aliases: ["view", "get"],
+          description: "Lihat pengaturan grup",
+        },
+        {
+          name: "prefix",
+          description: "Ubah prefix bot di grup ini (reset untuk default)",
+          args: [{ name: "prefix", type: "string" }],
+        },
+        {
+          name: "enable",
+          description: "Aktifkan perintah atau kategori",
+          args: [
+            {
+              name: "target",
+              type: "string",
+              description: `Nama perintah atau kategori (${CATEGORIES.join(
+                ", "
+              )})`,
+            },
+          ],
+        },
+        {
+          name: "disable",
+          description: "Nonaktifkan perintah atau kategori",
+          args: [{ name: "target", type: "string" }],
+        },
+        {
+          name: "adminonly",
+          description: "Batasi bot hanya untuk admin",
+          args: [{ name: "mode", type: "enum", choices: ["on", "off"] }],
+        },
+        {
+          name: "silent",
+          description: "Jangan balas perintah yang tidak dikenal",
+          args: [{ name: "mode", type: "enum", choices: ["on", "off"] }],
+        },
+        {
+          name: "language",
+          aliases: ["lang", "bahasa"],
+          description: "Ubah bahasa bot di grup ini (reset untuk default)",
+          args: [
+            {
+              name: "language",
+              type: "enum",
+              choices: [...Object.keys(LANGUAGES), "reset"],
+            },
+          ],
+        },
+        {
+          name: "welcome",
+          description: "Ubah pesan sambutan (reset untuk menghapus)",
+          args: [{ name: "message", type: "string", rest: true }],
+        },
+      ],
+      examples: [
+        "group info",
+        "group prefix .",
+        "group disable game",
+        "group enable hangman",
+        "group adminonly on",
+      ],
+    },
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+
+    if (!jid.endsWith("@g.us")) {
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Perintah ini hanya dapat digunakan di grup.`,
+      });
+      return;
+    }
+
+    const parsed = invocation?.parsed;
+    if (!parsed) {
+      await sock.sendMessage(jid, {
+        text: `*Penggunaan:*\n${formatUsage(
+          GroupCommand.commandInfo,
+          config.prefix
+        )}`,
+      });
+      return;
+    }
+
+    try {
+      const service = await getGroupSettingService();
+      const setting = (await service.get(jid)) ?? { group: jid };
+
+      if (parsed.subcommand === "info") {
+        await sock.sendMessage(jid, {
+          text: this.formatSetting(setting, setting.prefix || config.prefix),
+        });
+        return;
+      }
+
+      if (!(await this.canManageGroup(sock, jid, user))) {
+        await sock.sendMessage(jid, {
+          text: `${config.emoji.error} Hanya admin grup yang dapat mengubah pengaturan grup.`,
+        });
+        return;
+      }
+
+      switch (parsed.subcommand) {
+        case "prefix": {
+          const value = String(parsed.values.prefix);
+          if (value.toLowerCase() === "reset") {
+            await service.set(jid, { prefix: undefined });
+            await sock.sendMessage(jid, {
+              text: `${config.emoji.success} Prefix grup dikembalikan ke default (${config.prefix}).`,
+            });
+            return;
+          }
+          if (value.length > 3 || /\s/.test(value)) {
+            await sock.sendMessage(jid, {
+              text: `${config.emoji.error} Prefix maksimal 3 karakter tanpa spasi.`,
+            });
+            return;
+          }
+          await service.set(jid, { prefix: value });
+          await sock.sendMessage(jid, {
+            text: `${config.emoji.success} Prefix grup diubah menjadi: ${value}`,
+          });
+          return;
+        }
+        case "enable":
+        case "disable":
+          await this.toggleTarget(
+            sock,
+            jid,
+            setting,
+            String(parsed.values.target).toLowerCase(),
+            parsed.subcommand === "enable",
+            invocation?.commands ?? []
+          );
+          return;
+        case "adminonly": {
+          const adminOnly = parsed.values.mode === "on";
+          await service.set(jid, { adminOnly });
+          await sock.sendMessage(jid, {
+            text: `${config.emoji.success} Mode admin-only ${
+              adminOnly ? "diaktifkan" : "dinonaktifkan"
+            }.`,
+          });
+          return;
+        }
+        case "silent": {
+          const silent = parsed.values.mode === "on";
+          await service.set(jid, { silentUnknownCommands: silent });
+          await sock.sendMessage(jid, {
+            text: `${
+              config.emoji.success
+            } Balasan untuk perintah tidak dikenal ${
+              silent ? "dinonaktifkan" : "diaktifkan"
+            }.`,
+          });
+          return;
+        }
+        case "language": {
+          const value = String(parsed.values.language);
+          const language = isLanguage(value) ? value : undefined;
+          await service.set(jid, { language });
+          await sock.sendMessage(jid, {
+            text: language
+              ? `${config.emoji.success} Bahasa grup diubah menjadi ${LANGUAGES[language]}.`
+              : `${config.emoji.success} Bahasa grup dikembalikan ke default (${
+                  LANGUAGES[config.language]
+                }).`,
+          });
+          return;
+        }
+        case "welcome": {
+          const value = String(parsed.values.message);
+          const reset = value.toLowerCase() === "reset";
+          await service.set(jid, {
+            welcomeMessage: reset ? undefined : value,
+          });
+          await sock.sendMessage(jid, {
+            text: reset
+              ? `${config.emoji.success} Pesan sambutan dihapus.`
+              : `${config.emoji.success} Pesan sambutan diperbarui.`,
+          });
+          return;
+        }
+      }
+    } catch (error) {
+      log.error("Error in group command:", error);
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Terjadi error saat memproses pengaturan grup.`,
+      });
+    }
+  }
+
+  private async toggleTarget(
+    sock: ChatTransport,
+    jid: string,
+    setting: GroupSetting,
+    target: string,
+    enable: boolean,
+    commands: CommandInfo[]
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    const service = await getGroupSettingService();
+    const without = (list: string[] | undefined) =>
+      (list ?? []).filter((item) => item !== target);
+
+    const names = commands.flatMap((info) =>
+      [info.name, ...(info.aliases ?? [])].map((name) => name.toLowerCase())
+    );
+    // Entries saved before targets were checked can still be enabled away
+    const saved = [
+      ...(setting.disabledCommands ?? []),
+      ...(setting.disabledCategories ?? []),
+    ].includes(target);
+    if (
+      !CATEGORIES.includes(target as CommandInfo["category"]) &&
+      !names.includes(target) &&
+      !(enable && saved)
+    ) {
+      const suggestion = findClosest(target, [...CATEGORIES, ...names]);
+      await sock.sendMessage(jid, {
+        text: `${
+          config.emoji.error
+        } *${target}* bukan nama perintah atau kategori.${
+          suggestion ? ` Mungkin maksud kamu *${suggestion}*?` : ""
+        }`,
+      });
+      return;
+    }
+
+    if (CATEGORIES.includes(target as CommandInfo["category"])) {
+      if (!enable && target === "admin") {
+        await sock.sendMessage(jid, {
+          text: `${config.emoji.error} Kategori *admin* tidak dapat dinonaktifkan.`,
+        });
+        return;
+      }
+
+      await service.set(jid, {
+        disabledCategories: enable
+          ? without(setting.disabledCategories)
+          : [...without(setting.disabledCategories), target],
+      });
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.success} Kategori *${target}* ${
+          enable ? "diaktifkan" : "dinonaktifkan"
+        } di grup ini.`,
+      });
+      return;
+    }
+
+    if (!enable && PROTECTED_COMMANDS.includes(target)) {
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Perintah *${target}* tidak dapat dinonaktifkan.`,
+      });
+      return;
+    }
+
+    const update: Partial<GroupSetting> = {
+      disabledCommands: enable
+        ? without(setting.disabledCommands)
+        : [...without(setting.disabledCommands), target],
+    };
+    // Keep an existing allow-list in sync so "enable" actually allows it
+    if (setting.enabledCommands?.length) {
+      update.enabledCommands = enable
+        ? [...without(setting.enabledCommands), target]
+        : without(setting.enabledCommands);
+    }
+
+    await service.set(jid, update);
+    await sock.sendMessage(jid, {
+      text: `${config.emoji.success} Perintah *${target}* ${
+        enable ? "diaktifkan" : "dinonaktifkan"
+      } di grup ini.`,
+    });
+  }
+
+  private async canManageGroup(
+    sock: ChatTransport,
+    jid: string,
+    user: string
+  ): Promise<boolean> {
+    const roles = await getContextualRoles(user, jid, sock);
+    return roles.includes("admin") || roles.includes("groupAdmin");
+  }
+
+  private formatSetting(setting: GroupSetting, prefix: string): string {
+    const list = (items?: string[]) =>
+      items && items.length > 0 ? items.join(", ") : "-";
+
+    return `
+⚙️ *Pengaturan Grup*
+
+• Prefix: ${prefix}
+• Admin Only: ${setting.adminOnly ? "Ya" : "Tidak"}
+• Abaikan Perintah Tidak Dikenal: ${
+      setting.silentUnknownCommands ? "Ya" : "Tidak"
+    }
+• Perintah Diizinkan: ${
+      setting.enabledCommands?.length ? list(setting.enabledCommands) : "Semua"
+    }
+• Perintah Dinonaktifkan: ${list(setting.disabledCommands)}
+• Kategori Dinonaktifkan: ${list(setting.disabledCategories)}
+• Bahasa: ${setting.language ? LANGUAGES[setting.language] : "Default"}
+• Pesan Sambutan: ${setting.welcomeMessage || "-"}
+    `.trim();
+  }
+}
@@ -1,7 +1,8 @@
 import { BotConfig, log } from "../core/config.js";
 import { SessionService } from "../services/SessionService.js";
 import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
-import { WebSocketInfo, Session } from "../core/types.js";
+import { Session } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { getRandomKBBI } from "../utils/randomKBBI.js";
 import { randomBytes } from "crypto";
 import { proto } from "baileys";
@@ -157,7 +158,7 @@ export class HangmanGame extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
@@ -255,7 +256,7 @@ export class HangmanGame extends CommandInterface {
   private async startNewGame(
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService
   ) {
     let gameId = generateGameId();
@@ -304,7 +305,7 @@ export class HangmanGame extends CommandInterface {
     jid: string,
     user: string,
     gameId: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService
   ) {
     const gameData = activeHangmanGames.get(gameId);
@@ -355,7 +356,7 @@ export class HangmanGame extends CommandInterface {
     jid: string,
     user: string,
     gameId: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService
   ) {
     const gameData = activeHangmanGames.get(gameId);
@@ -427,7 +428,7 @@ export class HangmanGame extends CommandInterface {
     jid: string,
     user: string,
     gameId: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService
   ) {
     const gameData = activeHangmanGames.get(gameId);
@@ -465,7 +466,7 @@ export class HangmanGame extends CommandInterface {
     jid: string,
     user: string,
     gameId: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService
   ) {
     const gameData = activeHangmanGames.get(gameId);
@@ -545,7 +546,7 @@ export class HangmanGame extends CommandInterface {
     jid: string,
     user: string,
     gameId: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     gameData: HangmanSession,
     sessionService: SessionService
   ) {
@@ -636,7 +637,7 @@ export class HangmanGame extends CommandInterface {
     jid: string,
     user: string,
     gameId: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     gameData: HangmanSession,
     sessionService: SessionService
   ) {
@@ -696,7 +697,7 @@ export class HangmanGame extends CommandInterface {
     await this.updateGameStatus(jid, gameId, sock);
   }
 
-  private async showStatus(jid: string, gameId: string, sock: WebSocketInfo) {
+  private async showStatus(jid: string, gameId: string, sock: ChatTransport) {
     const gameData = activeHangmanGames.get(gameId);
     if (!gameData) {
       await sock.sendMessage(jid, {
@@ -710,7 +711,7 @@ export class HangmanGame extends CommandInterface {
   private async updateGameStatus(
     jid: string,
     gameId: string,
-    sock: WebSocketInfo
+    sock: ChatTransport
   ) {
     const gameData = activeHangmanGames.get(gameId);
     if (!gameData) {
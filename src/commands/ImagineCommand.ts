@@ -1,8 +1,13 @@
 import { proto } from "baileys";
-import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
-import { WebSocketInfo } from "../core/types.js";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import axios, { AxiosError } from "axios";
+import { runQueuedJob } from "../core/JobQueue.js";
 
 export class ImagineCommand extends CommandInterface {
   static commandInfo: CommandInfo = {
@@ -11,7 +16,7 @@ export class ImagineCommand extends CommandInterface {
     category: "general",
     commandClass: ImagineCommand,
     aliases: ["img", "generate"],
-    cooldown: 5,
+    cooldown: 5000,
     disabled: false,
     disabledReason: "",
     helpText: `*Cara pake:* 💫\n!imagine <prompt kamu>\n\n*Contoh:*\n!imagine sunset aesthetic vibes ungu gitu deh\n\n*Pro tip:* Lu bisa reply pesan buat jadiin prompt juga loh! ✨`,
@@ -27,41 +32,58 @@ export class ImagineCommand extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
-    msg: proto.IWebMessageInfo
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
   ): Promise<void> {
-    try {
-      let quotedText = "";
-      let prompt = args.join(" ").trim();
-
-      // Check for quoted message if no args provided
-      if (
-        msg?.message?.extendedTextMessage?.contextInfo?.quotedMessage &&
-        args.length === 0
-      ) {
-        const quoted =
-          msg.message.extendedTextMessage.contextInfo.quotedMessage;
-        if (quoted?.conversation) quotedText = quoted.conversation;
-        else if (quoted?.extendedTextMessage?.text)
-          quotedText = quoted.extendedTextMessage.text;
-        else if (quoted?.imageMessage?.caption)
-          quotedText = quoted.imageMessage.caption;
-
-        prompt = quotedText.trim();
-      }
+    let quotedText = "";
+    // Raw text keeps line breaks of multi-line prompts
+    let prompt = (invocation?.raw ?? args.join(" ")).trim();
+
+    // Check for quoted message if no args provided
+    if (
+      msg?.message?.extendedTextMessage?.contextInfo?.quotedMessage &&
+      args.length === 0
+    ) {
+      const quoted = msg.message.extendedTextMessage.contextInfo.quotedMessage;
+      if (quoted?.conversation) quotedText = quoted.conversation;
+      else if (quoted?.extendedTextMessage?.text)
+        quotedText = quoted.extendedTextMessage.text;
+      else if (quoted?.imageMessage?.caption)
+        quotedText = quoted.imageMessage.caption;
+
+      prompt = quotedText.trim();
+    }
 
-      if (!prompt) {
-        await sock.sendMessage(
-          jid,
-          {
-            text: "bestie lu lupa kasih prompt 💀\n\nBilang aja mau bikin gambar apa! Contoh:\n!imagine kucing lucu pake kacamata hitam keren abis\n\nAtau reply pesan aja buat jadiin prompt ✨",
-          },
-          { quoted: msg }
-        );
-        return;
-      }
+    if (!prompt) {
+      await sock.sendMessage(
+        jid,
+        {
+          text: "bestie lu lupa kasih prompt 💀\n\nBilang aja mau bikin gambar apa! Contoh:\n!imagine kucing lucu pake kacamata hitam keren abis\n\nAtau reply pesan aja buat jadiin prompt ✨",
+        },
+        { quoted: msg }
+      );
+      return;
+    }
+
+    await runQueuedJob(
+      sock,
+      { type: "imagine", user, jid, label: prompt },
+      (signal) => this.generate(prompt, jid, user, sock, msg, signal),
+      invocation?.language
+    );
+  }
 
+  private async generate(
+    prompt: string,
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    msg: proto.IWebMessageInfo,
+    signal: AbortSignal
+  ): Promise<void> {
+    try {
       // Send initial processing message
       await sock.sendMessage(
         jid,
@@ -80,6 +102,7 @@ export class ImagineCommand extends CommandInterface {
 
       const response = await axios.get(imageUrl, {
         responseType: "arraybuffer",
+        signal,
         timeout: 45000, // Increased timeout for better reliability
         maxRedirects: 5,
         headers: {
@@ -117,6 +140,8 @@ export class ImagineCommand extends CommandInterface {
         `[ImagineCommand] Successfully generated image for user: ${user}`
       );
     } catch (error) {
+      // Cancelled with !cancel; the user already got a confirmation
+      if (signal.aborted) return;
       console.error("[ImagineCommand] Error occurred:", error);
 
       let errorMessage =
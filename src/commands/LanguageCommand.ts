@@ -0,0 +1,113 @@
+import { proto } from "baileys";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import {
+  BotConfig,
+  getCurrentConfig,
+  getGroupSettingService,
+  getUserPreferenceService,
+  log,
+} from "../core/config.js";
+import {
+  LANGUAGES,
+  Language,
+  createTranslator,
+  isLanguage,
+} from "../core/i18n.js";
+
+export class LanguageCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "lang",
+    aliases: ["language", "bahasa"],
+    description: "Pilih bahasa balasan bot untuk kamu",
+    category: "utility",
+    commandClass: LanguageCommand,
+    argSchema: {
+      args: [
+        {
+          name: "language",
+          type: "enum",
+          choices: [...Object.keys(LANGUAGES), "reset"],
+          required: false,
+        },
+      ],
+      examples: ["lang", "lang en", "lang reset"],
+    },
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    const current = invocation?.language ?? config.language;
+    const value = invocation?.parsed?.values.language as string | undefined;
+
+    if (value === undefined) {
+      const t = createTranslator(current, config);
+      await sock.sendMessage(jid, {
+        text: t("languageCurrent", {
+          language: LANGUAGES[current],
+          choices: Object.entries(LANGUAGES)
+            .map(([code, name]) => `${code} (${name})`)
+            .join(", "),
+          prefix: config.prefix,
+        }),
+      });
+      return;
+    }
+
+    try {
+      const service = await getUserPreferenceService();
+      const language = isLanguage(value) ? value : undefined;
+      await service.set(user, { language });
+
+      // Confirm in the language that now applies
+      const t = createTranslator(
+        language ?? (await this.defaultLanguage(jid, config)),
+        config
+      );
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.success} ${
+          language
+            ? t("languageChanged", { language: LANGUAGES[language] })
+            : t("languageReset")
+        }`,
+      });
+    } catch (error) {
+      log.error("Error in lang command:", error);
+      const t = createTranslator(current, config);
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} ${t("languageSaveFailed")}`,
+      });
+    }
+  }
+
+  /**
+   * Language for users without their own: the group's, else the bot's
+   */
+  private async defaultLanguage(
+    jid: string,
+    config: typeof BotConfig
+  ): Promise<Language> {
+    if (!jid.endsWith("@g.us")) return config.language;
+    try {
+      const service = await getGroupSettingService();
+      const language = (await service.get(jid))?.language;
+      if (isLanguage(language)) return language;
+    } catch (error) {
+      log.error(`Error getting group language for ${jid}:`, error);
+    }
+    return config.language;
+  }
+}
@@ -1,7 +1,13 @@
 import { proto } from "baileys";
-import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { getCurrentConfig } from "../core/config.js";
+import { sendMenu } from "../core/MenuManager.js";
 import { getMongoClient } from "../core/mongo.js";
-import { WebSocketInfo } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { GameLeaderboardService } from "../services/GameLeaderboardService.js";
 import { SessionService } from "../services/SessionService.js";
 
@@ -9,7 +15,17 @@ export class LeaderboardCommand extends CommandInterface {
   static commandInfo: CommandInfo = {
     name: "leaderboard",
     description: "Show the top players for a game (e.g., hangman, rps)",
-    helpText: `*Usage:*\n!leaderboard <game>\n*Example:*\n!leaderboard hangman`,
+    argSchema: {
+      args: [
+        {
+          name: "game",
+          type: "string",
+          description: "Game name, e.g. hangman or rps",
+          required: false,
+        },
+      ],
+      examples: ["leaderboard", "leaderboard hangman"],
+    },
     category: "general",
     commandClass: LeaderboardCommand,
   };
@@ -18,19 +34,36 @@ export class LeaderboardCommand extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
-    msg: proto.IWebMessageInfo
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
   ): Promise<void> {
-    const game = args[0]?.toLowerCase();
+    const game = String(
+      invocation?.parsed?.values.game ?? args[0] ?? ""
+    ).toLowerCase();
+    const client = await getMongoClient();
+    const leaderboardService = new GameLeaderboardService(client);
+
     if (!game) {
-      await sock.sendMessage(jid, {
-        text: "Please specify a game. Example: !leaderboard hangman",
+      // Offer the games that have scores instead of making the user guess
+      const { prefix } = await getCurrentConfig();
+      const games = await leaderboardService.getGames();
+      const fallback = games.length
+        ? `Please specify a game: ${games.join(
+            ", "
+          )}. Example: ${prefix}leaderboard ${games[0]}`
+        : `Please specify a game. Example: ${prefix}leaderboard hangman`;
+      await sendMenu(sock, jid, {
+        title: "🏆 Leaderboard",
+        options: games.map((name) => ({
+          command: `${prefix}leaderboard ${name}`,
+          title: name,
+        })),
+        fallback,
       });
       return;
     }
-    const client = await getMongoClient();
-    const leaderboardService = new GameLeaderboardService(client);
     const leaderboard = await leaderboardService.getLeaderboard(game, 10);
 
     if (!leaderboard.length) {
@@ -1,7 +1,11 @@
 import { proto } from "baileys";
-import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandOutput,
+} from "../core/CommandInterface.js";
 import { BotConfig } from "../core/config.js";
-import { WebSocketInfo } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import axios, { AxiosResponse } from "axios";
 
@@ -44,10 +48,10 @@ export class LyricsFindCommand extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     msg: proto.IWebMessageInfo
-  ): Promise<void> {
+  ): Promise<CommandOutput | void> {
     // 1. Handle help subcommand first
     if (args.length > 0 && args[0] === "help") {
       await sock.sendMessage(jid, {
@@ -69,7 +73,7 @@ export class LyricsFindCommand extends CommandInterface {
     const lyricsResponse = await this.findLyrics(query);
     if (lyricsResponse) {
       const responseText = `Lirik untuk "${lyricsResponse.trackName}" oleh ${lyricsResponse.artistName}:\n\n${lyricsResponse.plainLyrics}`;
-      await sock.sendMessage(jid, { text: responseText });
+      return { text: responseText, data: lyricsResponse };
     } else {
       await sock.sendMessage(jid, {
         text: "Lirik tidak ditemukan.",
@@ -1,6 +1,6 @@
 import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
 import { BotConfig, log } from "../core/config.js";
-import { WebSocketInfo } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import { proto } from "baileys";
 import {
@@ -36,7 +36,7 @@ ID Tim adalah singkatan nama tiap tim, contoh: "alter ego esports" memiliki ID "
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
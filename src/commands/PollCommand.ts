@@ -0,0 +1,136 @@
+import { proto } from "baileys";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport, rootTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import { getCurrentConfig, log } from "../core/config.js";
+import { formatUsage } from "../core/arguments.js";
+import {
+  MAX_POLL_OPTIONS,
+  PollResult,
+  pollManager,
+} from "../core/PollManager.js";
+import { formatDuration, parseDuration } from "../utils/duration.js";
+
+const DEFAULT_DURATION_MS = 5 * 60 * 1000;
+// Votes are only kept in memory, so long polls would not survive a restart
+const MAX_DURATION_MS = 24 * 60 * 60 * 1000;
+
+export class PollCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "poll",
+    aliases: ["vote", "voting"],
+    description: "Buat polling WhatsApp dan umumkan hasilnya",
+    category: "general",
+    commandClass: PollCommand,
+    cooldown: 30000,
+    argSchema: {
+      args: [
+        {
+          name: "poll",
+          type: "string",
+          rest: true,
+          description:
+            "Durasi opsional di awal (default 5m, maks 24h), lalu pertanyaan; opsi 1; opsi 2 ...",
+        },
+      ],
+      examples: [
+        "poll Makan siang di mana?; Warteg; Padang; Bakso",
+        "poll 1h Main game apa malam ini?; Hangman; RPS",
+      ],
+    },
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    let text = String(invocation?.parsed?.values.poll ?? args.join(" "));
+
+    // "1h Pertanyaan; a; b" -> 1 hour. Options are not split on "|" because
+    // that already chains commands.
+    const [first, ...rest] = text.trim().split(/\s+/);
+    const durationMs = first ? parseDuration(first) : null;
+    if (durationMs) text = rest.join(" ");
+
+    const [question, ...options] = text
+      .split(";")
+      .map((part) => part.trim())
+      .filter(Boolean);
+    const unique = [...new Set(options)];
+
+    if (!question || unique.length < 2 || unique.length > MAX_POLL_OPTIONS) {
+      await sock.sendMessage(jid, {
+        text: `${
+          config.emoji.error
+        } Polling butuh pertanyaan dan 2-${MAX_POLL_OPTIONS} opsi berbeda.\n\n*Penggunaan:*\n${formatUsage(
+          PollCommand.commandInfo,
+          config.prefix
+        )}`,
+      });
+      return;
+    }
+
+    if (durationMs && durationMs > MAX_DURATION_MS) {
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Durasi polling maksimal ${formatDuration(
+          MAX_DURATION_MS
+        )}.`,
+      });
+      return;
+    }
+
+    const duration = durationMs ?? DEFAULT_DURATION_MS;
+    await sock.sendMessage(jid, {
+      text: `📊 Polling ditutup dalam ${formatDuration(
+        duration
+      )}. Hasilnya akan diumumkan di sini.`,
+    });
+
+    // Not awaited: the command would otherwise hold up the handler until
+    // the poll closes. The result is sent straight to the chat, not through
+    // wrappers that capture or edit this command's replies.
+    const transport = rootTransport(sock);
+    pollManager
+      .collect(
+        transport,
+        { jid, question, options: unique, quoted: msg },
+        duration
+      )
+      .then((result) =>
+        transport.sendMessage(jid, { text: this.formatResult(result) })
+      )
+      .catch(async (error) => {
+        log.error("Error in poll command:", error);
+        await transport
+          .sendMessage(jid, {
+            text: `${config.emoji.error} Polling "${question}" gagal.`,
+          })
+          .catch(() => {});
+      });
+  }
+
+  private formatResult(result: PollResult): string {
+    const lines = [...result.tally]
+      .sort((a, b) => b.voters.length - a.voters.length)
+      .map(({ option, voters }) => {
+        const percent = result.totalVoters
+          ? Math.round((voters.length / result.totalVoters) * 100)
+          : 0;
+        return `• ${option} — ${voters.length} suara (${percent}%)`;
+      });
+
+    return `📊 *Hasil polling:* ${result.question}\n\n${lines.join(
+      "\n"
+    )}\n\nTotal pemilih: ${result.totalVoters}`;
+  }
+}
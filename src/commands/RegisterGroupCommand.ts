@@ -1,8 +1,8 @@
 import { CommandInterface, CommandInfo } from "../core/CommandInterface.js";
 import { getMongoClient } from "../core/mongo.js";
 import { Collection, MongoClient } from "mongodb";
-import { getUserRoles } from "../core/config.js";
-import { WebSocketInfo } from "../core/types.js";
+import { getContextualRoles } from "../core/roles.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import { proto } from "baileys";
 
@@ -12,18 +12,18 @@ const GROUP_REGISTRY_COLLECTION = "group_registry";
 export class RegisterGroupCommand extends CommandInterface {
   static commandInfo: CommandInfo = {
     name: "registergroup",
-    description: "Register this group for scheduled tasks (admin only)",
-    helpText: `*Usage:*\n!registergroup\nRegister this group so it receives scheduled messages (admin only).`,
+    description: "Register this group for scheduled tasks (group admin only)",
+    helpText: `*Usage:*\n!registergroup\nRegister this group so it receives scheduled messages (group admin only).`,
     category: "admin",
     commandClass: RegisterGroupCommand,
-    requiredRoles: ["admin"],
+    requiredRoles: ["admin", "groupAdmin"],
   };
 
   async handleCommand(
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
@@ -33,7 +33,8 @@ export class RegisterGroupCommand extends CommandInterface {
       });
       return;
     }
-    if (!(await getUserRoles(user)).includes("admin")) {
+    const roles = await getContextualRoles(user, jid, sock);
+    if (!roles.includes("admin") && !roles.includes("groupAdmin")) {
       await sock.sendMessage(jid, {
         text: "Only group admins can register the group.",
       });
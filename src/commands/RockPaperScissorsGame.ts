@@ -1,7 +1,8 @@
 import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
 import { SessionService } from "../services/SessionService.js";
 import { BotConfig, log } from "../core/config.js";
-import { WebSocketInfo, Session } from "../core/types.js";
+import { Session } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { proto } from "baileys";
 
 type InputRPSChoice =
@@ -85,7 +86,7 @@ Untuk multiplayer, kedua pemain mengirim pilihan lewat DM ke bot.`,
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
@@ -140,7 +141,7 @@ Untuk multiplayer, kedua pemain mengirim pilihan lewat DM ke bot.`,
     }
   }
 
-  private async showHelp(jid: string, sock: WebSocketInfo) {
+  private async showHelp(jid: string, sock: ChatTransport) {
     const helpText = `🎮 *Cara Main Rock Paper Scissors*:
 
 *Vs AI*:
@@ -168,7 +169,7 @@ ${BotConfig.prefix}rps stop - Hentikan game yang sedang kamu mainkan (AI atau Mu
     mode: RPSMode,
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     isGroup: boolean
   ) {
@@ -282,7 +283,7 @@ ${BotConfig.prefix}rps stop - Hentikan game yang sedang kamu mainkan (AI atau Mu
     normalizedChoice: NormalizedRPSChoice,
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     isGroup: boolean
   ) {
@@ -364,7 +365,7 @@ ${BotConfig.prefix}rps stop - Hentikan game yang sedang kamu mainkan (AI atau Mu
     playerChoice: NormalizedRPSChoice,
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     session: Session<RPSSession>
   ) {
@@ -388,7 +389,7 @@ ${BotConfig.prefix}rps stop - Hentikan game yang sedang kamu mainkan (AI atau Mu
     playerChoice: NormalizedRPSChoice,
     groupJid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService
   ) {
     const gameSession = await sessionService.getSession<RPSSession>(
@@ -501,7 +502,7 @@ ${BotConfig.prefix}rps stop - Hentikan game yang sedang kamu mainkan (AI atau Mu
 
   private async announceMultiplayerResult(
     session: RPSSession,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService
   ) {
     if (
@@ -557,7 +558,7 @@ ${BotConfig.prefix}rps stop - Hentikan game yang sedang kamu mainkan (AI atau Mu
   private async handleStopGame(
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     isGroup: boolean
   ) {
@@ -697,7 +698,7 @@ ${BotConfig.prefix}rps stop - Hentikan game yang sedang kamu mainkan (AI atau Mu
   private async joinMultiplayerGame(
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService
   ) {
     const mpSession = await sessionService.getSession<RPSSession>(
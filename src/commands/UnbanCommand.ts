@@ -0,0 +1,69 @@
+import { proto } from "baileys";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
+import { ChatTransport } from "../core/transport.js";
+import { SessionService } from "../services/SessionService.js";
+import { getBanService, getCurrentConfig, log } from "../core/config.js";
+import { formatUsage } from "../core/arguments.js";
+
+export class UnbanCommand extends CommandInterface {
+  static commandInfo: CommandInfo = {
+    name: "unban",
+    aliases: ["bukablokir"],
+    description: "Cabut ban user (admin only)",
+    category: "admin",
+    commandClass: UnbanCommand,
+    requiredRoles: ["admin"],
+    argSchema: {
+      args: [
+        { name: "user", type: "jid", description: "Mention, nomor atau JID" },
+      ],
+      examples: ["unban @628123456789"],
+    },
+  };
+
+  async handleCommand(
+    args: string[],
+    jid: string,
+    user: string,
+    sock: ChatTransport,
+    sessionService: SessionService,
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<void> {
+    const config = await getCurrentConfig();
+    const parsed = invocation?.parsed;
+    if (!parsed) {
+      await sock.sendMessage(jid, {
+        text: `*Penggunaan:*\n${formatUsage(
+          UnbanCommand.commandInfo,
+          config.prefix
+        )}`,
+      });
+      return;
+    }
+
+    const target = String(parsed.values.user);
+    try {
+      const service = await getBanService();
+      const removed = await service.unban(target);
+
+      await sock.sendMessage(jid, {
+        text: removed
+          ? `${config.emoji.success} Ban @${target.split("@")[0]} dicabut.`
+          : `${config.emoji.info} @${
+              target.split("@")[0]
+            } tidak sedang di-ban.`,
+        mentions: [target],
+      });
+    } catch (error) {
+      log.error("Error in unban command:", error);
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} Gagal mencabut ban.`,
+      });
+    }
+  }
+}
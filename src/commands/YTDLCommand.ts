@@ -1,10 +1,15 @@
 import { proto } from "baileys";
-import { CommandInterface, CommandInfo } from "../core/CommandInterface.js";
+import {
+  CommandInfo,
+  CommandInterface,
+  CommandInvocation,
+} from "../core/CommandInterface.js";
 import { BotConfig, getCurrentConfig, log } from "../core/config.js";
-import { WebSocketInfo } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
 import { YtDlpWrapper } from "../utils/ytdlp.js";
 import extractUrlsFromText from "../utils/extractUrlsFromText.js";
+import { runQueuedJob } from "../core/JobQueue.js";
 
 export class YTDLCommand extends CommandInterface {
   static commandInfo: CommandInfo = {
@@ -28,7 +33,7 @@ export class YTDLCommand extends CommandInterface {
   private readonly MAX_FILE_SIZE_MB = 100;
 
   private async sendWithTimeout(
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     jid: string,
     message: any,
     timeoutMs: number = this.SEND_TIMEOUT
@@ -55,9 +60,10 @@ export class YTDLCommand extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
-    msg: proto.IWebMessageInfo
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
   ): Promise<void> {
     const config = await getCurrentConfig();
     if (args.length > 0 && args[0] === "help") {
@@ -104,13 +110,28 @@ export class YTDLCommand extends CommandInterface {
       return;
     }
 
+    await runQueuedJob(
+      sock,
+      { type: "ytdl", user, jid, label: url },
+      (signal) => this.download(url!, downloadMode, jid, sock, signal),
+      invocation?.language
+    );
+  }
+
+  private async download(
+    url: string,
+    downloadMode: "audio" | "video",
+    jid: string,
+    sock: ChatTransport,
+    signal: AbortSignal
+  ): Promise<void> {
     try {
       // Get video info first
       await sock.sendMessage(jid, {
         text: "🔍 Mengecek informasi video...",
       });
 
-      const videoInfo = await this.ytdl.getVideoInfo(url);
+      const videoInfo = await this.ytdl.getVideoInfo(url, signal);
       const duration = videoInfo.duration
         ? Math.round(videoInfo.duration / 60)
         : 0;
@@ -122,8 +143,8 @@ export class YTDLCommand extends CommandInterface {
 
       const response =
         downloadMode === "audio"
-          ? await this.ytdl.downloadAudio(url)
-          : await this.ytdl.downloadVideo(url);
+          ? await this.ytdl.downloadAudio(url, "mp3", signal)
+          : await this.ytdl.downloadVideo(url, signal);
 
       if (!response) {
         await sock.sendMessage(jid, {
@@ -191,6 +212,8 @@ export class YTDLCommand extends CommandInterface {
         return;
       }
     } catch (error) {
+      // Cancelled with !cancel; the user already got a confirmation
+      if (signal.aborted) return;
       log.error("Download failed:", error);
       await this.handleDownloadError(error, sock, jid);
       return;
@@ -199,7 +222,7 @@ export class YTDLCommand extends CommandInterface {
 
   private async handleDownloadError(
     error: any,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     jid: string
   ): Promise<void> {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1,8 +1,9 @@
 import { proto } from "baileys";
 import { CommandInfo, CommandInterface } from "../core/CommandInterface.js";
-import { WebSocketInfo } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { SessionService } from "../services/SessionService.js";
-import { BotConfig } from "../core/config.js";
+import { BotConfig, getCurrentConfig } from "../core/config.js";
+import { sendMenu } from "../core/MenuManager.js";
 
 export class YTSearchCommand extends CommandInterface {
   static commandInfo: CommandInfo = {
@@ -27,7 +28,7 @@ export class YTSearchCommand extends CommandInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
@@ -134,7 +135,16 @@ export class YTSearchCommand extends CommandInterface {
 
       text += `Gunakan kembali perintah dengan nomor urutan (misal: 1 atau 2 audio) untuk download video/audio.`;
 
-      await sock.sendMessage(jid, { text });
+      // Memilih video dari menu sama dengan mengetik ytsearch <nomor>
+      const { prefix } = await getCurrentConfig();
+      await sendMenu(sock, jid, {
+        title: `Hasil Pencarian: ${query}`,
+        options: videos.map((video, index) => ({
+          command: `${prefix}ytsearch ${index + 1}`,
+          title: video.title,
+        })),
+        fallback: text,
+      });
     } catch (error) {
       console.error("Error during YouTube search:", error);
       await sock.sendMessage(jid, {
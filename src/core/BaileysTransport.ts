@@ -0,0 +1,40 @@
+import {
+  AnyMessageContent,
+  GroupMetadata,
+  MiscMessageGenerationOptions,
+  WAPresence,
+  proto,
+} from "baileys";
+import { ChatTransport } from "./transport.js";
+import { WebSocketInfo } from "./types.js";
+
+/**
+ * ChatTransport backed by a live Baileys socket
+ */
+export class BaileysTransport implements ChatTransport {
+  constructor(private sock: WebSocketInfo) {}
+
+  get user() {
+    return this.sock.user;
+  }
+
+  sendMessage(
+    jid: string,
+    content: AnyMessageContent,
+    options?: MiscMessageGenerationOptions
+  ): Promise<proto.WebMessageInfo | undefined> {
+    return this.sock.sendMessage(jid, content, options);
+  }
+
+  sendPresenceUpdate(type: WAPresence, jid?: string): Promise<void> {
+    return this.sock.sendPresenceUpdate(type, jid);
+  }
+
+  readMessages(keys: proto.IMessageKey[]): Promise<void> {
+    return this.sock.readMessages(keys);
+  }
+
+  groupMetadata(jid: string): Promise<GroupMetadata> {
+    return this.sock.groupMetadata(jid);
+  }
+}
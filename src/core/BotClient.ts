@@ -1,5 +1,6 @@
 import { MongoClient } from "mongodb";
 import { CommandUsageService } from "../services/CommandUsageService.js";
+import { CooldownService } from "../services/CooldownService.js";
 import wa, {
   makeWASocket,
   DisconnectReason,
@@ -12,12 +13,18 @@ import { CommandHandler } from "./CommandHandler.js";
 import { SessionService } from "../services/SessionService.js";
 import { BotConfig, getCurrentConfig } from "./config.js";
 import { WebSocketInfo } from "./types.js";
+import { ChatTransport } from "./transport.js";
+import { BaileysTransport } from "./BaileysTransport.js";
+import { MessageRouter } from "./MessageRouter.js";
 import { Boom } from "@hapi/boom";
 import { log } from "./config.js";
 import { useMongoDBAuthState } from "./auth.js";
 import MAIN_LOGGER from "baileys/lib/Utils/logger.js";
 import { closeMongoClient, getMongoClient } from "./mongo.js";
-import NodeCache from "node-cache";
+import { groupMetadataCache } from "./roles.js";
+import { floodGuard } from "./FloodGuard.js";
+import { menuManager } from "./MenuManager.js";
+import { pollManager } from "./PollManager.js";
 import { setCommandHandler } from "../utils/ai_tools.js";
 
 // Import the broadcast function
@@ -44,6 +51,8 @@ const RECONNECT_INTERVAL = 3000;
 
 export class BotClient {
   private sock: WebSocketInfo | null = null;
+  private transport: ChatTransport | null = null; // Wraps sock for commands
+  private router: MessageRouter | null = null;
   private commandHandler: CommandHandler;
   private sessionService: SessionService;
   private botId: string | null = null;
@@ -56,7 +65,7 @@ export class BotClient {
   } | null = null;
   private usageService: CommandUsageService | null = null;
   private mongoClient: MongoClient | null = null;
-  private groupCache = new NodeCache({ stdTTL: 5 * 60, useClones: false });
+  private groupCache = groupMetadataCache;
   public currentQR: string | null = null; // Store current QR code
 
   constructor() {
@@ -92,6 +101,7 @@ export class BotClient {
       if (this.sock) {
         this.sock.end(new Error("Restarting connection"));
         this.sock = null;
+        this.transport = null;
       }
 
       try {
@@ -140,11 +150,28 @@ export class BotClient {
           cachedGroupMetadata: async (jid) => this.groupCache.get(jid),
         });
 
+        this.transport = new BaileysTransport(this.sock);
         this.botId = this.sock.authState.creds.me?.id.split(":")[0] || null;
+        this.commandHandler.stopWatching();
         this.commandHandler = new CommandHandler(
           this.sessionService,
           this.usageService
         );
+        if (process.env.COOLDOWN_STORE !== "memory") {
+          this.commandHandler.setCooldownStore(
+            new CooldownService(this.mongoClient)
+          );
+        }
+        this.router = new MessageRouter(
+          this.commandHandler,
+          this.transport,
+          this.botId
+        );
+        // Keep AI tools on the handler that receives reloads
+        setCommandHandler(this.commandHandler);
+        if (process.env.NODE_ENV !== "production") {
+          this.commandHandler.watchCommands();
+        }
 
         // this.store.bind(this.sock.ev);
       } catch (error) {
@@ -237,49 +264,7 @@ export class BotClient {
         try {
           if (type != "notify") return;
           for (const m of messages) {
-            if (!m.message) continue;
-
-            // Get current config for allowFromMe check
-            const config = await getCurrentConfig().catch(() => BotConfig);
-            if (m.key.fromMe && !config.allowFromMe) continue;
-
-            const text =
-              m.message.conversation ||
-              m.message.extendedTextMessage?.text ||
-              "";
-            const jid = m.key.remoteJid!;
-            const user = m.key.participant || jid;
-
-            if (
-              config.allowMentionPrefix &&
-              this.botId &&
-              text.includes(`@${this.botId}`)
-            ) {
-              const commandText = this.extractCommandFromMention(
-                text,
-                this.botId
-              );
-              if (commandText) {
-                await this.commandHandler.handleCommand(
-                  config.prefix + commandText,
-                  jid,
-                  user,
-                  this.sock!,
-                  m
-                );
-              }
-              continue;
-            }
-
-            if (await this.commandHandler.isCommand(text)) {
-              await this.commandHandler.handleCommand(
-                text,
-                jid,
-                user,
-                this.sock!,
-                m
-              );
-            }
+            await this.router!.route(m);
           }
         } catch (error) {
           log.error("Error handling message: ", error);
@@ -321,15 +306,6 @@ export class BotClient {
     }
   }
 
-  private extractCommandFromMention(
-    text: string,
-    botId: string
-  ): string | null {
-    const mentionPattern = new RegExp(`@${botId}\\s+(.+)`, "i");
-    const match = text.match(mentionPattern);
-    return match ? match[1].trim() : null;
-  }
-
   private cleanupSocket() {
     if (this.sock) {
       try {
@@ -338,6 +314,7 @@ export class BotClient {
         log.warn("Error during socket cleanup:", error);
       }
       this.sock = null;
+      this.transport = null;
     }
   }
 
@@ -1,23 +1,102 @@
-import { CommandInterface, CommandInfo } from "./CommandInterface.js";
+import {
+  CommandInterface,
+  CommandInfo,
+  CommandOutput,
+} from "./CommandInterface.js";
 import { SessionService } from "../services/SessionService.js";
 import { CommandUsageService } from "../services/CommandUsageService.js";
-import { log, getUserRoles, getCurrentConfig } from "./config.js";
-import { WebSocketInfo } from "./types.js";
-import { CooldownManager } from "./CooldownManager.js";
+import {
+  BotConfig,
+  log,
+  getUserRoles,
+  getCurrentConfig,
+  getGroupSettingService,
+  getUserPreferenceService,
+  getBanService,
+} from "./config.js";
+import { GroupSetting } from "../services/GroupSettingService.js";
+import { getContextualRoles } from "./roles.js";
+import { ChatTransport } from "./transport.js";
+import { CooldownManager, CooldownStore } from "./CooldownManager.js";
+import {
+  CommandContext,
+  CommandMiddleware,
+  MiddlewarePipeline,
+  aiRestrictionMiddleware,
+  argumentMiddleware,
+  createCooldownMiddleware,
+  createUsageMiddleware,
+  disabledMiddleware,
+  groupPolicyMiddleware,
+  maintenanceMiddleware,
+  permissionMiddleware,
+} from "./middleware.js";
+import { formatUsage } from "./arguments.js";
+import { joinTokens, tokenize } from "./tokenizer.js";
+import { RegistryIssue, buildRegistry } from "./registry.js";
+import { findClosest } from "./suggestions.js";
+import {
+  CATEGORY_LABELS,
+  CATEGORY_ORDER,
+  firstExample,
+  paginate,
+  parseCategory,
+  searchCommands,
+  sortCommands,
+} from "./help.js";
+import { sendMenu } from "./MenuManager.js";
+import { captureTextMessages, parseChain, withQuotedText } from "./chain.js";
+import { Language, Translator, createTranslator, isLanguage } from "./i18n.js";
 import { proto } from "baileys";
+import NodeCache from "node-cache";
 import os from "os";
 
 import fs from "fs";
 import path from "path";
-import { fileURLToPath } from "url";
+import { fileURLToPath, pathToFileURL } from "url";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const COMMANDS_DIR = path.resolve(__dirname, "../commands");
+const WATCH_DEBOUNCE_MS = 300;
+
+// Commands allowed in one message joined with "&&" or "|"
+const MAX_CHAIN_STEPS = 5;
+
+// How many custom aliases may point at other custom aliases
+const MAX_ALIAS_DEPTH = 3;
+
+// Replies that run the command suggested for a mistyped one
+const SUGGESTION_CONFIRMATIONS = ["ya", "y", "iya", "yes"];
+
+// Commands handled directly by CommandHandler instead of a command class
+const BUILTIN_COMMANDS = ["games", "help", "stop", "stats", "reload"];
+
+interface ExtractedCommand {
+  command: string;
+  args: string[];
+  raw: string; // Everything after the command name, quotes and newlines intact
+}
+
+export interface ReloadResult {
+  loaded: string[]; // Names of the commands that were (re)registered
+  errors: { file: string; error: string }[];
+}
+
 export class CommandHandler {
   private commands: Map<string, CommandInfo> = new Map();
   private aliases: Map<string, string> = new Map();
+  private commandFiles: Map<string, string> = new Map(); // Command name -> file
+  private commandModules: Map<string, CommandInfo> = new Map(); // File -> CommandInfo
+  private registryIssues: RegistryIssue[] = [];
+  private commandExtension: string = ".ts";
+  private watcher: fs.FSWatcher | null = null;
+  private reloadQueue: Promise<unknown> = Promise.resolve();
+  // "jid:user" -> full command text of the last suggestion, awaiting "ya"
+  private pendingSuggestions = new NodeCache({ stdTTL: 60 });
   private cooldownManager: CooldownManager = new CooldownManager();
+  private pipeline: MiddlewarePipeline = new MiddlewarePipeline();
   private initialized: boolean = false;
   private initializationPromise: Promise<void>;
 
@@ -25,6 +104,17 @@ export class CommandHandler {
     private sessionService: SessionService,
     private usageService?: CommandUsageService
   ) {
+    this.pipeline.use(maintenanceMiddleware);
+    this.pipeline.use(groupPolicyMiddleware);
+    this.pipeline.use(disabledMiddleware);
+    this.pipeline.use(permissionMiddleware);
+    this.pipeline.use(aiRestrictionMiddleware);
+    this.pipeline.use(argumentMiddleware);
+    this.pipeline.use(createCooldownMiddleware(this.cooldownManager));
+    if (this.usageService) {
+      this.pipeline.use(createUsageMiddleware(this.usageService));
+    }
+
     this.initializationPromise = this.initialize();
     setInterval(() => this.sessionService.cleanupExpiredSessions(), 1800000); // 30 minutes
   }
@@ -43,62 +133,189 @@ export class CommandHandler {
   }
 
   async registerCommands() {
-    const commandsDir = path.resolve(__dirname, "../commands");
+    const files = this.listCommandFiles();
+    if (!files) return;
+
+    log.info(`Loading ${files.length} command files from ${COMMANDS_DIR}`);
+    await this.loadCommandFiles(files, false);
+    log.info(`Successfully registered ${this.commands.size} commands`);
+  }
+
+  /**
+   * Re-import command modules from disk and swap them into the registry.
+   * Reloads every command file, or only the file that defines `name`.
+   * A file that fails to load keeps its previously registered command.
+   *
+   * Only the command modules themselves are re-imported; services and other
+   * modules they import stay cached until restart.
+   */
+  async reloadCommands(name?: string): Promise<ReloadResult> {
+    return this.serializeReload(async () => {
+      if (name) {
+        const info = this.getCommandInfo(name.toLowerCase());
+        const file = info && this.commandFiles.get(info.name.toLowerCase());
+        if (!file) {
+          throw new Error(`Command not found: ${name}`);
+        }
+        return this.loadCommandFiles([file], true);
+      }
+
+      const files = this.listCommandFiles() ?? [];
+      // Files deleted since the last load take their commands with them
+      const removed = [...new Set(this.commandFiles.values())].filter(
+        (file) => !files.includes(file)
+      );
+      return this.loadCommandFiles(files, true, removed);
+    });
+  }
+
+  /**
+   * Watch the commands directory and reload files as they change. Intended
+   * for development; production deployments use the reload command instead.
+   */
+  watchCommands(): void {
+    if (this.watcher) return;
+
+    const pending = new Map<string, NodeJS.Timeout>();
+    try {
+      this.watcher = fs.watch(COMMANDS_DIR, (_event, filename) => {
+        if (!filename || !filename.endsWith(this.commandExtension)) return;
+
+        // Editors usually emit several events per save
+        clearTimeout(pending.get(filename));
+        pending.set(
+          filename,
+          setTimeout(() => {
+            pending.delete(filename);
+            this.reloadCommandFile(filename);
+          }, WATCH_DEBOUNCE_MS)
+        );
+      });
+      log.info(`Watching ${COMMANDS_DIR} for command changes`);
+    } catch (error) {
+      log.error("Failed to watch command files:", error);
+    }
+  }
+
+  stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  private async reloadCommandFile(file: string): Promise<void> {
+    const exists = fs.existsSync(path.join(COMMANDS_DIR, file));
+    const result = await this.serializeReload(() =>
+      exists
+        ? this.loadCommandFiles([file], true)
+        : this.loadCommandFiles([], true, [file])
+    );
+
+    if (result.loaded.length > 0) {
+      log.info(`Reloaded ${file}: ${result.loaded.join(", ")}`);
+    } else if (!exists) {
+      log.info(`Unloaded commands from deleted file ${file}`);
+    }
+  }
+
+  private serializeReload(
+    task: () => Promise<ReloadResult>
+  ): Promise<ReloadResult> {
+    const run = this.reloadQueue.then(task);
+    this.reloadQueue = run.catch(() => undefined);
+    return run;
+  }
 
+  private listCommandFiles(): string[] | null {
     // Check if we're in development (TypeScript) or production (JavaScript)
     const isDev = process.env.NODE_ENV !== "production";
     const fileExtension = isDev ? ".ts" : ".js";
 
-    let files: string[] = [];
     try {
-      files = fs
-        .readdirSync(commandsDir)
+      const files = fs
+        .readdirSync(COMMANDS_DIR)
         .filter((f) => f.endsWith(fileExtension));
+      this.commandExtension = fileExtension;
+      return files;
     } catch (error) {
       // If no files found with one extension, try the other
       const altExtension = isDev ? ".js" : ".ts";
       try {
-        files = fs
-          .readdirSync(commandsDir)
+        const files = fs
+          .readdirSync(COMMANDS_DIR)
           .filter((f) => f.endsWith(altExtension));
+        this.commandExtension = altExtension;
+        return files;
       } catch (altError) {
-        log.error(`No command files found in ${commandsDir}`);
-        return;
+        log.error(`No command files found in ${COMMANDS_DIR}`);
+        return null;
       }
     }
+  }
+
+  /**
+   * Load command files, rebuild the registry from every loaded module and
+   * swap it in at once so lookups never see a half-updated set of commands.
+   */
+  private async loadCommandFiles(
+    files: string[],
+    fresh: boolean,
+    removedFiles: string[] = []
+  ): Promise<ReloadResult> {
+    const modules = new Map(this.commandModules);
+    const result: ReloadResult = { loaded: [], errors: [] };
 
-    log.info(`Loading ${files.length} command files from ${commandsDir}`);
+    removedFiles.forEach((file) => modules.delete(file));
 
     for (const file of files) {
       try {
-        const commandModule = await import(path.join(commandsDir, file));
-        // Support both default and named exports
-        const CommandClass =
-          commandModule.default || Object.values(commandModule)[0];
-        if (!CommandClass || !CommandClass.commandInfo) {
-          log.warn(
-            `Command file ${file} does not export a valid command class`
-          );
-          continue;
-        }
-        this.registerCommand(CommandClass.commandInfo);
-        log.debug(`Registered command: ${CommandClass.commandInfo.name}`);
+        modules.set(file, await this.importCommand(file, fresh));
       } catch (error) {
         log.error(`Failed to load command from ${file}:`, error);
+        result.errors.push({
+          file,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
     }
 
-    log.info(`Successfully registered ${this.commands.size} commands`);
-  }
+    const registry = buildRegistry(modules, BUILTIN_COMMANDS);
+    for (const issue of registry.issues) {
+      const text = `Command registry: ${issue.file} (${issue.command}): ${issue.message}`;
+      issue.severity === "error" ? log.error(text) : log.warn(text);
+    }
 
-  private registerCommand(info: CommandInfo): void {
-    this.commands.set(info.name.toLowerCase(), info);
+    this.commandModules = modules;
+    this.commands = registry.commands;
+    this.aliases = registry.aliases;
+    this.commandFiles = registry.commandFiles;
+    this.registryIssues = registry.issues;
 
-    if (info.aliases) {
-      for (const alias of info.aliases) {
-        this.aliases.set(alias.toLowerCase(), info.name.toLowerCase());
+    for (const [name, file] of registry.commandFiles) {
+      if (files.includes(file)) {
+        result.loaded.push(name);
+        log.debug(`Registered command: ${name}`);
       }
     }
+    return result;
+  }
+
+  private async importCommand(file: string, fresh: boolean) {
+    const url = pathToFileURL(path.join(COMMANDS_DIR, file));
+    if (fresh) {
+      // A new query string makes the module loader evaluate the file again
+      url.searchParams.set("reload", String(Date.now()));
+    }
+
+    const commandModule = await import(url.href);
+    // Support both default and named exports
+    const CommandClass =
+      commandModule.default || Object.values(commandModule)[0];
+    if (!CommandClass || !CommandClass.commandInfo) {
+      throw new Error(
+        `Command file ${file} does not export a valid command class`
+      );
+    }
+    return CommandClass.commandInfo as CommandInfo;
   }
 
   private isGameCommand(command: string): boolean {
@@ -134,218 +351,428 @@ export class CommandHandler {
     return new info.commandClass();
   }
 
-  async isCommand(text: string): Promise<boolean> {
+  async isCommand(text: string, jid?: string): Promise<boolean> {
     if (!text) return false;
 
+    const prefixes = await this.getPrefixes(jid);
+    return prefixes.some((prefix) => prefix && text.startsWith(prefix));
+  }
+
+  /**
+   * Get the primary prefix for a chat, honoring the group's own prefix
+   */
+  async getPrefix(jid?: string): Promise<string> {
+    const [prefix] = await this.getPrefixes(jid);
+    return prefix;
+  }
+
+  private async getPrefixes(jid?: string): Promise<string[]> {
     const config = await getCurrentConfig();
+    const groupSetting = jid ? await this.getGroupSetting(jid) : null;
+    return [
+      groupSetting?.prefix || config.prefix,
+      ...config.alternativePrefixes,
+    ];
+  }
 
-    if (config.prefix && text.startsWith(config.prefix)) return true;
+  /**
+   * Translator for the language a user gets replies in within a chat
+   */
+  async getTranslator(jid: string, user: string): Promise<Translator> {
+    const config = await getCurrentConfig();
+    const groupSetting = await this.getGroupSetting(jid);
+    const language = await this.resolveLanguage(user, groupSetting, config);
+    return createTranslator(language, config);
+  }
 
-    for (const prefix of config.alternativePrefixes) {
-      if (text.startsWith(prefix)) return true;
+  /**
+   * The user's own language, else the group's, else the bot default
+   */
+  private async resolveLanguage(
+    user: string,
+    groupSetting: GroupSetting | null,
+    config: typeof BotConfig
+  ): Promise<Language> {
+    try {
+      const service = await getUserPreferenceService();
+      const preferred = (await service.get(user))?.language;
+      if (isLanguage(preferred)) return preferred;
+    } catch (error) {
+      log.error(`Error getting language for ${user}:`, error);
     }
+    return isLanguage(groupSetting?.language)
+      ? groupSetting!.language
+      : config.language;
+  }
 
-    return false;
+  /**
+   * Whether a user is banned from the bot. Fails open when the ban list
+   * can't be read.
+   */
+  async isBanned(user: string): Promise<boolean> {
+    try {
+      const service = await getBanService();
+      return await service.isBanned(user);
+    } catch (error) {
+      log.error(`Error checking ban for ${user}:`, error);
+      return false;
+    }
   }
 
-  private async extractCommand(
-    text: string
-  ): Promise<{ command: string; args: string[] }> {
-    const config = await getCurrentConfig();
-    let usedPrefix = config.prefix;
-    for (const prefix of [config.prefix, ...config.alternativePrefixes]) {
-      if (text.startsWith(prefix)) {
-        usedPrefix = prefix;
-        break;
-      }
+  private async getGroupSetting(jid: string): Promise<GroupSetting | null> {
+    if (!jid.endsWith("@g.us")) return null;
+    try {
+      const service = await getGroupSettingService();
+      return await service.get(jid);
+    } catch (error) {
+      log.error(`Error getting group settings for ${jid}:`, error);
+      return null;
     }
+  }
+
+  private stripPrefix(text: string, prefixes: string[]): string {
+    const usedPrefix = prefixes.find((prefix) => text.startsWith(prefix));
+    return text.slice(usedPrefix?.length ?? 0).trim();
+  }
 
-    const commandText = text.slice(usedPrefix.length).trim();
+  private extractCommand(commandText: string): ExtractedCommand {
     if (!commandText) {
-      return { command: "", args: [] };
+      return { command: "", args: [], raw: "" };
     }
 
     const [command, ...args] = commandText.split(/\s+/);
-    return { command: command.toLowerCase(), args };
+    const raw = commandText.slice(command.length).replace(/^\s+/, "");
+    return { command: command.toLowerCase(), args, raw };
+  }
+
+  /**
+   * Replace a personal alias (UserPreference.customAliases) with the command
+   * text it stands for, before global aliases are looked up. Aliases may
+   * point at other aliases, up to MAX_ALIAS_DEPTH levels.
+   *
+   * @returns The expanded command, or null when the aliases loop or nest too
+   * deep
+   */
+  private async expandUserAlias(
+    user: string,
+    extracted: ExtractedCommand
+  ): Promise<ExtractedCommand | null> {
+    if (!extracted.command) return extracted;
+
+    let customAliases: Record<string, string> | undefined;
+    try {
+      const service = await getUserPreferenceService();
+      customAliases = (await service.get(user))?.customAliases;
+    } catch (error) {
+      log.error(`Error getting custom aliases for ${user}:`, error);
+    }
+    if (!customAliases) return extracted;
+
+    let current = extracted;
+    const seen = new Set<string>();
+    // The alias command itself can't be shadowed, so aliases can always be fixed
+    while (
+      current.command !== "alias" &&
+      Object.hasOwn(customAliases, current.command)
+    ) {
+      if (seen.has(current.command) || seen.size >= MAX_ALIAS_DEPTH) {
+        return null;
+      }
+      seen.add(current.command);
+
+      const expansion = customAliases[current.command];
+      current = this.extractCommand(
+        current.raw ? `${expansion} ${current.raw}` : expansion
+      );
+    }
+
+    return current;
   }
 
   async handleCommand(
     text: string,
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     msg: proto.IWebMessageInfo
   ): Promise<void> {
+    let t: Translator | undefined;
     try {
       // Ensure initialization is complete before processing commands
       if (!this.initialized) {
         await this.waitForInitialization();
       }
 
-      const config = await getCurrentConfig();
+      // Banned users are ignored without a reply
+      if (await this.isBanned(user)) {
+        log.debug(`Ignoring command from banned user ${user}`);
+        return;
+      }
 
-      if (config.maintenanceMode && !config.admins.includes(user)) {
+      const groupSetting = await this.getGroupSetting(jid);
+      let config = await getCurrentConfig();
+      if (groupSetting?.prefix) {
+        // Replies and help texts should show the prefix this group uses
+        config = { ...config, prefix: groupSetting.prefix };
+      }
+      const language = await this.resolveLanguage(user, groupSetting, config);
+      t = createTranslator(language, config);
+
+      const prefixes = [config.prefix, ...config.alternativePrefixes];
+      const steps = parseChain(this.stripPrefix(text, prefixes));
+      if (!steps) {
         await sock.sendMessage(jid, {
-          text: `${config.emoji.error} Bot sedang dalam mode _maintenance_. Silakan coba lagi nanti.`,
+          text: `${config.emoji.error} ${t("chainIncomplete", {
+            prefix: config.prefix,
+          })}`,
+        });
+        return;
+      }
+      if (steps.length > MAX_CHAIN_STEPS) {
+        await sock.sendMessage(jid, {
+          text: `${config.emoji.error} ${t("chainTooLong", {
+            max: MAX_CHAIN_STEPS,
+          })}`,
         });
         return;
       }
-
-      const { command, args } = await this.extractCommand(text);
-
-      log.debug(
-        `Handling command: ${command} with args: ${args.join(
-          ", "
-        )} for ${user} ${jid.endsWith("@g.us") ? "in " + jid : ""}`
-      );
 
       await sock.readMessages([msg.key]);
       await sock.sendPresenceUpdate("composing", jid);
 
-      // Handle built-in commands
-      if (command === "games") {
-        await this.listGames(jid, sock);
-        return;
+      let input: string | undefined;
+      for (let i = 0; i < steps.length; i++) {
+        const result = await this.runChainStep(
+          // Later steps may repeat the prefix: "!yts lagu && !yts 1"
+          i === 0 ? steps[i].text : this.stripPrefix(steps[i].text, prefixes),
+          { jid, user, sock, msg, config, groupSetting, language, t },
+          steps[i].piped ? input : undefined,
+          steps[i + 1]?.piped ?? false
+        );
+        if (!result.ok) break;
+        input = result.output || undefined;
       }
 
-      if (command === "help") {
-        await this.handleHelpCommand(args, jid, sock);
-        return;
-      }
+      await sock.sendPresenceUpdate("available", jid);
+    } catch (error) {
+      log.error(`Error handling command: ${error}`);
+      const config = await getCurrentConfig();
+      t ??= createTranslator(config.language, config);
+      await sock.sendMessage(jid, {
+        text: t("commandError"),
+      });
+      await sock.sendPresenceUpdate("available", jid);
+    }
+  }
 
-      if (command === "stop") {
-        await this.handleStopCommand(jid, user, sock);
-        return;
-      }
+  /**
+   * Run one command of a (possibly single-step) chain through the pipeline.
+   * When `capture` is set, text replies become the step's output instead of
+   * being sent, so the next command can receive them as input.
+   */
+  private async runChainStep(
+    commandText: string,
+    base: Pick<
+      CommandContext,
+      | "jid"
+      | "user"
+      | "sock"
+      | "msg"
+      | "config"
+      | "groupSetting"
+      | "language"
+      | "t"
+    >,
+    input: string | undefined,
+    capture: boolean
+  ): Promise<{ ok: boolean; output?: string }> {
+    const { jid, user, sock, msg, config, t } = base;
+
+    const extracted = await this.expandUserAlias(
+      user,
+      this.extractCommand(commandText)
+    );
+    if (!extracted) {
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} ${t("aliasTooDeep", {
+          prefix: config.prefix,
+        })}`,
+      });
+      return { ok: false };
+    }
+    const { command, args, raw } = extracted;
 
-      if (command === "stats" && this.usageService) {
-        await this.handleStatsCommand(jid, sock, user, args);
-        return;
-      }
+    log.debug(
+      `Handling command: ${command} with args: ${args.join(", ")} for ${user} ${
+        jid.endsWith("@g.us") ? "in " + jid : ""
+      }`
+    );
 
-      const commandInfo = this.getCommandInfo(command);
-      if (commandInfo) {
-        if (commandInfo.disabled) {
-          const reason =
-            commandInfo.disabledReason || "Tidak ada alasan yang diberikan.";
-          await sock.sendMessage(jid, {
-            text: `${config.emoji.error} Perintah *${commandInfo.name}* telah dinonaktifkan. Alasan: ${reason}`,
-          });
-          return;
-        }
-        // Permission check for requiredRoles (type-safe, supports multiple roles)
-        if (commandInfo.requiredRoles && commandInfo.requiredRoles.length > 0) {
-          const userRoles = await getUserRoles(user);
-          const hasRole = commandInfo.requiredRoles.some((role) =>
-            userRoles.includes(role)
-          );
-          if (!hasRole) {
-            await sock.sendMessage(jid, {
-              text: `${config.emoji.error} Kamu tidak memiliki izin untuk menggunakan perintah ini.`,
-            });
-            return;
-          }
-        }
+    const commandInfo = this.isBuiltinCommand(command)
+      ? undefined
+      : this.getCommandInfo(command);
 
-        const actualCommand = commandInfo.name;
+    const captured: string[] = [];
+    const ctx: CommandContext = {
+      ...base,
+      command: commandInfo ? commandInfo.name : command,
+      info: commandInfo,
+      args,
+      raw,
+      tokens: tokenize(raw).map((token) => token.value),
+      sock: capture ? captureTextMessages(sock, captured) : sock,
+      msg: input !== undefined ? withQuotedText(msg, input) : msg,
+      source: "chat",
+      input,
+      state: {},
+    };
+
+    const rejection = await this.pipeline.run(ctx, async () => {
+      ctx.output = (await this.dispatchCommand(ctx)) ?? undefined;
+    });
+    if (rejection) {
+      await sock.sendMessage(jid, { text: rejection.message });
+      return { ok: false };
+    }
 
-        if (commandInfo.cooldown) {
-          const cooldownTime = commandInfo.cooldown;
-          const maxUses = commandInfo.maxUses || 1;
+    const text = ctx.output?.text;
+    if (text !== undefined) {
+      if (capture) return { ok: true, output: text };
+      await sock.sendMessage(jid, { text });
+    }
 
-          if (
-            this.cooldownManager.isOnCooldown(
-              user,
-              actualCommand,
-              cooldownTime,
-              maxUses
-            )
-          ) {
-            const remainingTime = this.cooldownManager.getRemainingCooldown(
-              user,
-              actualCommand,
-              cooldownTime
-            );
-
-            await sock.sendMessage(jid, {
-              text: `${config.emoji.error} Kamu terlalu cepat menggunakan perintah ini. Coba lagi dalam ${remainingTime} detik.`,
-            });
-            return;
-          }
-        }
+    return {
+      // Unknown commands stop the chain like rejected ones
+      ok: !!commandInfo || this.isBuiltinCommand(command),
+      output: captured.join("\n\n"),
+    };
+  }
 
-        // Increment usage stats if service is available
-        if (this.usageService) {
-          await this.usageService.increment(commandInfo.name, user);
-        }
+  /**
+   * Keep cooldowns in a different store, e.g. MongoDB so they survive
+   * restarts and are shared between instances
+   */
+  setCooldownStore(store: CooldownStore): void {
+    this.cooldownManager.setStore(store);
+  }
 
-        if (commandInfo.category === "game") {
-          await this.handleGameCommand(
-            actualCommand,
-            args,
-            jid,
-            user,
-            sock,
-            msg
-          );
-        } else if (commandInfo.category === "general") {
-          await this.handleGeneralCommand(
-            actualCommand,
-            args,
-            jid,
-            user,
-            sock,
-            msg
-          );
-        } else if (commandInfo.category === "admin") {
-          await this.handleAdminCommand(
-            actualCommand,
-            args,
-            jid,
-            user,
-            sock,
-            msg
-          );
-        } else {
-          await this.handleUtilityCommand(
-            actualCommand,
-            args,
-            jid,
-            user,
-            sock,
-            msg
-          );
-        }
-      } else {
-        await sock.sendMessage(jid, {
-          text: config.unknownCommandResponse.replace(
-            "{prefix}",
-            config.prefix
-          ),
-        });
-      }
-      await sock.sendPresenceUpdate("available", jid);
-    } catch (error) {
-      log.error(`Error handling command: ${error}`);
-      const config = await getCurrentConfig();
+  /**
+   * Register a middleware at the end of the command pipeline
+   */
+  use(middleware: CommandMiddleware): void {
+    this.pipeline.use(middleware);
+  }
+
+  private isBuiltinCommand(command: string): boolean {
+    if (command === "stats") return !!this.usageService;
+    return BUILTIN_COMMANDS.includes(command);
+  }
+
+  private async dispatchCommand(
+    ctx: CommandContext
+  ): Promise<CommandOutput | void> {
+    const { command, args, jid, user, sock, msg, config } = ctx;
+
+    // Handle built-in commands
+    if (command === "games") {
+      await this.listGames(ctx);
+      return;
+    }
+
+    if (command === "help") {
+      await this.handleHelpCommand(ctx);
+      return;
+    }
+
+    if (command === "stop") {
+      await this.handleStopCommand(ctx);
+      return;
+    }
+
+    if (command === "stats" && this.usageService) {
+      await this.handleStatsCommand(ctx);
+      return;
+    }
+
+    if (command === "reload") {
+      await this.handleReloadCommand(ctx);
+      return;
+    }
+
+    if (!ctx.info) {
+      await this.handleUnknownCommand(ctx);
+      return;
+    }
+
+    return ctx.info.category === "game"
+      ? this.handleGameCommand(ctx)
+      : this.executeCommand(ctx);
+  }
+
+  private async handleUnknownCommand(ctx: CommandContext) {
+    const { command, raw, jid, user, sock, config, groupSetting, t } = ctx;
+    // Busy groups can opt out of replies to anything that isn't a command
+    if (groupSetting?.silentUnknownCommands) return;
+
+    const suggestion = this.suggestCommand(command);
+    if (!suggestion) {
       await sock.sendMessage(jid, {
-        text: config.messages.commandError,
+        text: config.unknownCommandResponse.replace("{prefix}", config.prefix),
       });
-      await sock.sendPresenceUpdate("available", jid);
+      return;
     }
+
+    this.pendingSuggestions.set(
+      `${jid}:${user}`,
+      `${config.prefix}${suggestion}${raw ? ` ${raw}` : ""}`
+    );
+    await sock.sendMessage(jid, {
+      text: t("commandSuggestion", {
+        command: `${config.prefix}${suggestion}`,
+      }),
+    });
   }
 
-  private async handleGameCommand(
-    command: string,
-    args: string[],
+  /**
+   * Closest command name or alias to a mistyped command
+   */
+  private suggestCommand(command: string): string | null {
+    const candidates = [
+      ...BUILTIN_COMMANDS.filter((name) => this.isBuiltinCommand(name)),
+      ...Array.from(this.commands.values())
+        .filter((info) => !info.disabled)
+        .flatMap((info) => [info.name, ...(info.aliases ?? [])]),
+    ];
+    return findClosest(command, candidates);
+  }
+
+  /**
+   * Take the pending "did you mean" suggestion when the user confirms it.
+   * Any other message from the user drops the suggestion.
+   *
+   * @returns The suggested command text to run, or null when the message is
+   * not a confirmation
+   */
+  takeConfirmedSuggestion(
+    text: string,
     jid: string,
-    user: string,
-    sock: WebSocketInfo,
-    msg: proto.IWebMessageInfo
-  ) {
-    const commandInstance = this.getCommandInstance(command);
+    user: string
+  ): string | null {
+    const key = `${jid}:${user}`;
+    const commandText = this.pendingSuggestions.get<string>(key);
+    if (commandText === undefined) return null;
+
+    this.pendingSuggestions.del(key);
+    return SUGGESTION_CONFIRMATIONS.includes(text.trim().toLowerCase())
+      ? commandText
+      : null;
+  }
+
+  private async handleGameCommand(
+    ctx: CommandContext
+  ): Promise<CommandOutput | void> {
+    const { command, jid, user, sock, config, t } = ctx;
     const existingSession = await this.sessionService.getSession(jid, user);
-    const config = await getCurrentConfig();
 
     if (existingSession && existingSession.game !== command) {
       // Special case: Allow RPS commands if the session is an RPS multiplayer link
@@ -353,95 +780,51 @@ export class CommandHandler {
         // This is fine - let the RPS game handle its link sessions
       } else {
         await sock.sendMessage(jid, {
-          text: config.messages.gameInProgress
-            .replace("{game}", existingSession.game)
-            .replace("{prefix}", config.prefix),
+          text: t("gameInProgress", {
+            game: existingSession.game,
+            prefix: config.prefix,
+          }),
         });
         return;
       }
     }
 
-    await commandInstance.handleCommand(
-      args,
-      jid,
-      user,
-      sock,
-      this.sessionService,
-      msg
-    );
-  }
-
-  private async handleGeneralCommand(
-    command: string,
-    args: string[],
-    jid: string,
-    user: string,
-    sock: WebSocketInfo,
-    msg: proto.IWebMessageInfo
-  ) {
-    const commandInstance = this.getCommandInstance(command);
-    await commandInstance.handleCommand(
-      args,
-      jid,
-      user,
-      sock,
-      this.sessionService,
-      msg
-    );
-  }
-
-  private async handleAdminCommand(
-    command: string,
-    args: string[],
-    jid: string,
-    user: string,
-    sock: WebSocketInfo,
-    msg: proto.IWebMessageInfo
-  ) {
-    // TODO: Check if user is admin before executing admin commands
-    // For now we'll just execute the command like a general command
-    const commandInstance = this.getCommandInstance(command);
-    await commandInstance.handleCommand(
-      args,
-      jid,
-      user,
-      sock,
-      this.sessionService,
-      msg
-    );
+    return this.executeCommand(ctx);
   }
 
-  private async handleUtilityCommand(
-    command: string,
-    args: string[],
-    jid: string,
-    user: string,
-    sock: WebSocketInfo,
-    msg: proto.IWebMessageInfo
-  ) {
-    const commandInstance = this.getCommandInstance(command);
-    await commandInstance.handleCommand(
-      args,
-      jid,
-      user,
-      sock,
+  private async executeCommand(
+    ctx: CommandContext
+  ): Promise<CommandOutput | void> {
+    const commandInstance = this.getCommandInstance(ctx.command);
+    return commandInstance.handleCommand(
+      ctx.args,
+      ctx.jid,
+      ctx.user,
+      ctx.sock,
       this.sessionService,
-      msg
+      ctx.msg,
+      {
+        parsed: ctx.parsed,
+        raw: ctx.raw,
+        tokens: ctx.tokens,
+        input: ctx.input,
+        language: ctx.language,
+        commands: this.getAllCommands(),
+      }
     );
   }
 
-  private async listGames(jid: string, sock: WebSocketInfo) {
+  private async listGames(ctx: CommandContext) {
+    const { jid, sock, config, t } = ctx;
     const gameCommands = Array.from(this.commands.values()).filter(
       (cmd) => cmd.category === "game"
     );
 
-    const config = await getCurrentConfig();
-
     const gameList = gameCommands
       .map((game) => {
         let aliasText = "";
         if (game.aliases && game.aliases.length > 0) {
-          aliasText = ` (alias: ${game.aliases
+          aliasText = ` (${t("alias").toLowerCase()}: ${game.aliases
             .map((a) => `*${config.prefix}${a}*`)
             .join(", ")})`;
         }
@@ -450,93 +833,147 @@ export class CommandHandler {
       })
       .join("\n");
 
-    await sock.sendMessage(jid, {
-      text: `${config.emoji.games} Daftar Game yang Tersedia:\n${gameList}\n\nGunakan ${config.prefix}<nama game> start untuk memulai, atau ${config.prefix}help <nama game> untuk bantuan.`,
+    await sendMenu(sock, jid, {
+      title: `${config.emoji.games} ${t("gamesTitle")}`,
+      options: gameCommands.map((game) => ({
+        command: `${config.prefix}${game.name} start`,
+        title: `${config.prefix}${game.name}`,
+      })),
+      fallback: `${config.emoji.games} ${t("gamesTitle")}\n${gameList}\n\n${t(
+        "gamesFooter",
+        { prefix: config.prefix }
+      )}`,
     });
   }
 
-  private async handleStopCommand(
-    jid: string,
-    user: string,
-    sock: WebSocketInfo
-  ) {
+  private async handleStopCommand(ctx: CommandContext) {
+    const { jid, user, sock, t } = ctx;
     const session = await this.sessionService.getSession(jid, user);
-    const config = await getCurrentConfig();
 
     if (session) {
       await this.sessionService.clearSession(jid, user);
       await sock.sendMessage(jid, {
-        text: config.messages.gameStopped.replace("{game}", session.game),
+        text: t("gameStopped", { game: session.game }),
       });
     } else {
       await sock.sendMessage(jid, {
-        text: config.messages.noGameRunning,
+        text: t("noGameRunning"),
       });
     }
   }
 
-  private async handleHelpCommand(
-    args: string[],
-    jid: string,
-    sock: WebSocketInfo
-  ) {
-    const config = await getCurrentConfig();
+  /**
+   * Commands the caller can run here: disabled commands and commands needing
+   * a role the caller lacks are left out of help listings
+   */
+  private async getVisibleCommands(ctx: CommandContext) {
+    const roles = await getContextualRoles(ctx.user, ctx.jid, ctx.sock);
+    return [...this.commands.values()].filter(
+      (info) =>
+        !info.disabled &&
+        (!info.requiredRoles?.length ||
+          info.requiredRoles.some((role) => roles.includes(role)))
+    );
+  }
 
-    if (args.length === 0) {
-      const gameCommands: string[] = [];
-      const generalCommands: string[] = [];
-      const adminCommands: string[] = [];
-      const utilityCommands: string[] = [];
-
-      for (const [_, info] of this.commands) {
-        const commandText = `*${config.prefix}${info.name}* - ${info.description}`;
-
-        switch (info.category) {
-          case "game":
-            gameCommands.push(commandText);
-            break;
-          case "general":
-            generalCommands.push(commandText);
-            break;
-          case "admin":
-            adminCommands.push(commandText);
-            break;
-          case "utility":
-            utilityCommands.push(commandText);
-            break;
+  private async handleHelpCommand(ctx: CommandContext) {
+    const { args, jid, sock, config, t } = ctx;
+    const query = args[0]?.toLowerCase();
+    const category = query ? parseCategory(query) : undefined;
+    const searching = query?.startsWith("?") ?? false;
+
+    // !help, !help 2, !help game, !help game 2, !help ?download
+    if (!query || /^\d+$/.test(query) || category || searching) {
+      const visible = await this.getVisibleCommands(ctx);
+      let helpText = `${config.emoji.help} *${t("helpTitle", {
+        name: config.name,
+      })}*\n\n`;
+      let commands: CommandInfo[];
+      let pageArg: string | undefined;
+      let pageCommand: string;
+
+      if (searching) {
+        const term = args.join(" ").slice(1).trim();
+        commands = searchCommands(visible, term);
+        pageCommand = `${config.prefix}help ?${term}`;
+        helpText += `*${t("helpSearchTitle", { query: term })}*\n\n`;
+        if (!term || commands.length === 0) {
+          await sock.sendMessage(jid, {
+            text: t("helpNoResults", { query: term, prefix: config.prefix }),
+          });
+          return;
+        }
+      } else if (category) {
+        commands = sortCommands(
+          visible.filter((info) => info.category === category)
+        );
+        pageArg = args[1];
+        pageCommand = `${config.prefix}help ${query}`;
+        if (commands.length === 0) {
+          await sock.sendMessage(jid, { text: t("helpCategoryEmpty") });
+          return;
         }
+      } else {
+        commands = sortCommands(visible);
+        pageArg = query;
+        pageCommand = `${config.prefix}help`;
       }
 
-      let helpText = `${config.emoji.help} *Bantuan ${config.name} Bot*\n\n`;
+      const page = paginate(commands, Number(pageArg ?? 1));
 
-      helpText += `*Perintah Inti:*\n`;
-      helpText += `*${config.prefix}games* - Melihat daftar game yang tersedia\n`;
-      helpText += `*${config.prefix}help [command]* - Menampilkan bantuan untuk command tertentu\n`;
-      helpText += `*${config.prefix}stop* - Menghentikan game yang sedang berjalan\n\n`;
-
-      if (gameCommands.length > 0) {
-        helpText += `*${config.emoji.games} Game:*\n${gameCommands.join(
-          "\n"
-        )}\n\n`;
-      }
-
-      if (generalCommands.length > 0) {
-        helpText += `*${config.emoji.info} Umum:*\n${generalCommands.join(
-          "\n"
-        )}\n\n`;
+      if (page.page === 1 && !query) {
+        helpText += `*${t("helpCore")}:*\n`;
+        helpText += `*${config.prefix}games* - ${t("helpGames")}\n`;
+        helpText += `*${config.prefix}help [${t("helpArguments")}]* - ${t(
+          "helpHelp"
+        )}\n`;
+        helpText += `*${config.prefix}stop* - ${t("helpStop")}\n\n`;
       }
 
-      if (adminCommands.length > 0) {
-        helpText += `*Admin:*\n${adminCommands.join("\n")}\n\n`;
+      let lastCategory: CommandInfo["category"] | undefined;
+      for (const info of page.items) {
+        // Search results are ranked, so they are not grouped by category
+        if (!searching && info.category !== lastCategory) {
+          const emoji =
+            info.category === "game"
+              ? `${config.emoji.games} `
+              : info.category === "general"
+              ? `${config.emoji.info} `
+              : "";
+          if (lastCategory) helpText += "\n";
+          helpText += `*${emoji}${t(CATEGORY_LABELS[info.category])}:*\n`;
+          lastCategory = info.category;
+        }
+        helpText += `*${config.prefix}${info.name}* - ${info.description}\n`;
+        const example = firstExample(info, config.prefix);
+        if (searching && example) {
+          helpText += `   _${t("example")}: ${example}_\n`;
+        }
       }
 
-      if (utilityCommands.length > 0) {
-        helpText += `*Utilitas:*\n${utilityCommands.join("\n")}\n\n`;
+      helpText += `\n${t("helpPage", { page: page.page, pages: page.pages })}`;
+      if (page.page < page.pages) {
+        helpText += ` ${t("helpNextPage", {
+          command: `${pageCommand} ${page.page + 1}`,
+        })}`;
       }
-
-      helpText += `Gunakan ${config.prefix}help [nama perintah] untuk informasi lebih detail.`;
-
-      await sock.sendMessage(jid, { text: helpText });
+      helpText += `\n${t("helpHints", {
+        prefix: config.prefix,
+        categories: CATEGORY_ORDER.filter((name) =>
+          visible.some((info) => info.category === name)
+        ).join(", "),
+      })}\n`;
+      helpText += t("helpFooter", { prefix: config.prefix });
+
+      // Picking a command from the menu shows its help
+      await sendMenu(sock, jid, {
+        title: t("helpTitle", { name: config.name }),
+        options: page.items.map((info) => ({
+          command: `${config.prefix}help ${info.name}`,
+          title: `${config.prefix}${info.name}`,
+        })),
+        fallback: helpText,
+      });
       return;
     }
 
@@ -545,37 +982,74 @@ export class CommandHandler {
 
     if (!commandInfo) {
       await sock.sendMessage(jid, {
-        text: `Perintah *${config.prefix}${args[0]}* tidak ditemukan.\nGunakan ${config.prefix}help untuk melihat daftar perintah yang tersedia.`,
+        text: t("helpNotFound", {
+          command: `${config.prefix}${args[0]}`,
+          prefix: config.prefix,
+        }),
       });
       return;
     }
 
     let aliasText = "";
     if (commandInfo.aliases && commandInfo.aliases.length > 0) {
-      aliasText = `\n*Alias:* ${commandInfo.aliases
+      aliasText = `\n*${t("alias")}:* ${commandInfo.aliases
         .map((a) => config.prefix + a)
         .join(", ")}`;
     }
 
     let helpText =
       `*${config.prefix}${commandInfo.name}*${aliasText}\n` +
-      `*Deskripsi:* ${commandInfo.description}\n\n`;
-
-    if (commandInfo.helpText) {
+      `*${t("description")}:* ${commandInfo.description}\n\n`;
+
+    if (commandInfo.argSchema) {
+      helpText += `*${t("usage")}:*\n${formatUsage(
+        commandInfo,
+        config.prefix,
+        t
+      )}`;
+    } else if (commandInfo.helpText) {
       helpText += commandInfo.helpText;
     }
 
     await sock.sendMessage(jid, { text: helpText });
   }
 
-  private async handleStatsCommand(
-    jid: string,
-    sock: WebSocketInfo,
-    user: string,
-    args: string[]
-  ) {
+  private async handleReloadCommand(ctx: CommandContext) {
+    const { args, jid, user, sock, config, t } = ctx;
+
+    if (!(await getUserRoles(user)).includes("admin")) {
+      await sock.sendMessage(jid, {
+        text: `${config.emoji.error} ${t("reloadAdminOnly")}`,
+      });
+      return;
+    }
+
+    const name = args[0]?.toLowerCase();
+    if (name && !this.getCommandInfo(name)) {
+      await sock.sendMessage(jid, {
+        text: t("reloadNotFound", { command: `${config.prefix}${args[0]}` }),
+      });
+      return;
+    }
+
+    const result = await this.reloadCommands(name);
+
+    let text = `${config.emoji.success} ${t("reloadDone", {
+      count: result.loaded.length,
+    })}`;
+    if (result.errors.length > 0) {
+      text += `\n\n${config.emoji.error} ${t("reloadFailed")}\n${result.errors
+        .map(({ file, error }) => `• ${file}: ${error}`)
+        .join("\n")}`;
+    }
+
+    await sock.sendMessage(jid, { text });
+  }
+
+  private async handleStatsCommand(ctx: CommandContext) {
+    const { args, jid, sock, t } = ctx;
     if (!this.usageService) {
-      await sock.sendMessage(jid, { text: "Statistik tidak tersedia." });
+      await sock.sendMessage(jid, { text: t("statsUnavailable") });
       return;
     }
     let statsText = "";
@@ -584,16 +1058,16 @@ export class CommandHandler {
       const command = args[0].toLowerCase();
       const stats = await this.usageService.getCommandStats(command);
       if (stats.length === 0) {
-        statsText = `Belum ada statistik untuk perintah *${command}*.`;
+        statsText = t("statsCommandEmpty", { command });
       } else {
         statsText =
-          `Statistik penggunaan *${command}*:\n` +
+          `${t("statsCommandTitle", { command })}\n` +
           stats
             .map(
               (s, i) =>
-                `${i + 1}. ${s.user}: ${
-                  s.count
-                }x (terakhir: ${s.lastUsed.toLocaleString()})`
+                `${i + 1}. ${s.user}: ${s.count}x (${t(
+                  "statsLastUsed"
+                )}: ${s.lastUsed.toLocaleString()})`
             )
             .join("\n");
       }
@@ -601,7 +1075,7 @@ export class CommandHandler {
       // Show global stats
       const allStats = await this.usageService.getAllStats();
       if (allStats.length === 0) {
-        statsText = "Belum ada statistik penggunaan perintah.";
+        statsText = t("statsEmpty");
       } else {
         // Aggregate by command
         const byCommand: Record<string, number> = {};
@@ -615,9 +1089,11 @@ export class CommandHandler {
         const minutes = Math.floor((uptimeSeconds % 3600) / 60);
 
         let uptimeFormatted = [
-          days > 0 ? `${days} hari` : "",
-          hours > 0 ? `${hours} jam` : "",
-          minutes > 0 ? `${minutes} menit` : `${uptimeSeconds % 60} detik`,
+          days > 0 ? t("days", { count: days }) : "",
+          hours > 0 ? t("hours", { count: hours }) : "",
+          minutes > 0
+            ? t("minutes", { count: minutes })
+            : t("seconds", { count: uptimeSeconds % 60 }),
         ]
           .filter(Boolean)
           .join(" ");
@@ -640,7 +1116,7 @@ export class CommandHandler {
 `;
 
         statsText =
-          "Statistik penggunaan perintah:\n" +
+          `${t("statsTitle")}\n` +
           Object.entries(byCommand)
             .map(([cmd, count], i) => `${i + 1}. *${cmd}*: ${count}x`)
             .join("\n") +
@@ -662,6 +1138,14 @@ export class CommandHandler {
     );
   }
 
+  /**
+   * Problems found while building the command registry, e.g. duplicate
+   * aliases or malformed CommandInfo
+   */
+  getRegistryIssues(): RegistryIssue[] {
+    return this.registryIssues;
+  }
+
   getCommandByName(name: string): CommandInfo | undefined {
     return this.getCommandInfo(name);
   }
@@ -671,13 +1155,19 @@ export class CommandHandler {
     return info !== undefined && !info.disabled;
   }
 
-  async canUserExecuteCommand(name: string, user: string): Promise<boolean> {
+  async canUserExecuteCommand(
+    name: string,
+    user: string,
+    jid?: string
+  ): Promise<boolean> {
     const info = this.getCommandInfo(name);
     if (!info || info.disabled) return false;
 
     // Check permissions
     if (info.requiredRoles && info.requiredRoles.length > 0) {
-      const userRoles = await getUserRoles(user);
+      const userRoles = jid
+        ? await getContextualRoles(user, jid)
+        : await getUserRoles(user);
       const hasRole = info.requiredRoles.some((role) =>
         userRoles.includes(role)
       );
@@ -692,7 +1182,7 @@ export class CommandHandler {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     msg: proto.IWebMessageInfo
   ): Promise<{ success: boolean; message?: string; error?: string }> {
     try {
@@ -701,55 +1191,6 @@ export class CommandHandler {
         return { success: false, error: `Command '${commandName}' not found` };
       }
 
-      if (info.disabled) {
-        return {
-          success: false,
-          error: `Command '${commandName}' is disabled`,
-        };
-      }
-
-      // Check permissions
-      if (!(await this.canUserExecuteCommand(commandName, user))) {
-        return {
-          success: false,
-          error: `You don't have permission to use '${commandName}'`,
-        };
-      }
-
-      // Check cooldown
-      if (info.cooldown) {
-        const cooldownTime = info.cooldown;
-        const maxUses = info.maxUses || 1;
-
-        if (
-          this.cooldownManager.isOnCooldown(
-            user,
-            commandName,
-            cooldownTime,
-            maxUses
-          )
-        ) {
-          const remainingTime = this.cooldownManager.getRemainingCooldown(
-            user,
-            commandName,
-            cooldownTime
-          );
-          return {
-            success: false,
-            error: `Command on cooldown. Try again in ${remainingTime} seconds`,
-          };
-        }
-      }
-
-      // Safety check for restricted commands
-      const restrictedCommands = ["config", "register"];
-      if (restrictedCommands.includes(commandName.toLowerCase())) {
-        return {
-          success: false,
-          error: `Command '${commandName}' cannot be executed by AI for security reasons`,
-        };
-      }
-
       // Safety check for game commands
       if (info.category === "game") {
         const existingSession = await this.sessionService.getSession(jid, user);
@@ -761,21 +1202,39 @@ export class CommandHandler {
         }
       }
 
-      // Increment usage stats
-      if (this.usageService) {
-        await this.usageService.increment(info.name, user);
-      }
-
-      // Execute the command
-      const commandInstance = this.getCommandInstance(commandName);
-      await commandInstance.handleCommand(
+      const config = await getCurrentConfig();
+      const groupSetting = await this.getGroupSetting(jid);
+      const language = await this.resolveLanguage(user, groupSetting, config);
+      const ctx: CommandContext = {
+        command: info.name,
+        info,
         args,
+        raw: joinTokens(args),
+        tokens: args,
         jid,
         user,
         sock,
-        this.sessionService,
-        msg
-      );
+        msg,
+        config,
+        groupSetting,
+        language,
+        t: createTranslator(language, config),
+        source: "ai",
+        state: {},
+      };
+
+      const rejection = await this.pipeline.run(ctx, async () => {
+        ctx.output = (await this.executeCommand(ctx)) ?? undefined;
+      });
+
+      if (rejection) {
+        return { success: false, error: rejection.message };
+      }
+
+      const text = ctx.output?.text;
+      if (text !== undefined) {
+        await sock.sendMessage(jid, { text });
+      }
 
       return {
         success: true,
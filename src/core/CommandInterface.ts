@@ -1,6 +1,8 @@
 import { proto } from "baileys";
 import { SessionService } from "../services/SessionService.js";
-import { WebSocketInfo } from "./types.js";
+import { ChatTransport } from "./transport.js";
+import { ArgSchema, ParsedArgs } from "./arguments.js";
+import { Language } from "./i18n.js";
 
 export interface CommandInfo {
   name: string;
@@ -14,6 +16,28 @@ export interface CommandInfo {
   requiredRoles?: import("./config.js").UserRole[];
   disabled?: boolean;
   disabledReason?: string;
+  argSchema?: ArgSchema; // Validated before handleCommand; also used to generate help
+}
+
+/**
+ * Extra per-call data provided by CommandHandler on top of the raw args
+ */
+export interface CommandInvocation {
+  parsed?: ParsedArgs; // Present when the command declares an argSchema
+  raw?: string; // Text after the command name, quotes and newlines intact
+  tokens?: string[]; // Quote-aware split of raw
+  input?: string; // Text output piped in from the previous command ("a | b")
+  language?: Language; // Resolved from the user's, group's or bot's setting
+  commands?: CommandInfo[]; // Every registered command, for commands that refer to others
+}
+
+/**
+ * Optional structured result of a command. Its text is sent to the chat, or
+ * handed to the next command when piped.
+ */
+export interface CommandOutput {
+  text?: string;
+  data?: unknown; // Machine-readable result for callers that understand it
 }
 
 export interface BaseInterface {
@@ -21,10 +45,11 @@ export interface BaseInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
-    msg: proto.IWebMessageInfo
-  ): Promise<void>;
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<CommandOutput | void>;
 }
 
 export abstract class CommandInterface implements BaseInterface {
@@ -34,8 +59,9 @@ export abstract class CommandInterface implements BaseInterface {
     args: string[],
     jid: string,
     user: string,
-    sock: WebSocketInfo,
+    sock: ChatTransport,
     sessionService: SessionService,
-    msg: proto.IWebMessageInfo
-  ): Promise<void>;
+    msg: proto.IWebMessageInfo,
+    invocation?: CommandInvocation
+  ): Promise<CommandOutput | void>;
 }
@@ -1,15 +1,31 @@
 import { log } from "./config.js";
 
-interface CooldownInfo {
-  timestamp: number;
-  count: number;
+export interface CooldownHit {
+  limited: boolean; // True when the call was refused
+  retryAfterMs: number; // Time until the next call is allowed, 0 when not limited
 }
 
 /**
- * Manages cooldowns for commands to prevent abuse
+ * Backing storage for cooldown counters. Implementations apply a sliding
+ * window: a call is allowed when fewer than `maxUses` calls were allowed in
+ * the last `windowMs`, and refused calls are not recorded.
  */
-export class CooldownManager {
-  private cooldowns: Map<string, CooldownInfo> = new Map();
+export interface CooldownStore {
+  hit(key: string, windowMs: number, maxUses: number): Promise<CooldownHit>;
+  // Same verdict as hit, without recording the call
+  peek(key: string, windowMs: number, maxUses: number): Promise<CooldownHit>;
+  // Take back the latest recorded call, e.g. when another limit refused it
+  release(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Process-local cooldown store. Counters are lost on restart and not shared
+ * between bot instances.
+ */
+export class MemoryCooldownStore implements CooldownStore {
+  private hits: Map<string, { timestamps: number[]; expiresAt: number }> =
+    new Map();
   private readonly cleanupInterval = 3600000; // 1 hour in milliseconds
 
   constructor() {
@@ -17,94 +33,142 @@ export class CooldownManager {
     setInterval(() => this.cleanup(), this.cleanupInterval);
   }
 
+  async hit(key: string, windowMs: number, maxUses: number) {
+    const now = Date.now();
+    const timestamps = this.recent(key, windowMs, now);
+
+    const limited = timestamps.length >= maxUses;
+    if (!limited) timestamps.push(now);
+    this.hits.set(key, {
+      timestamps,
+      expiresAt: timestamps[timestamps.length - 1] + windowMs,
+    });
+
+    return limited
+      ? { limited, retryAfterMs: timestamps[0] + windowMs - now }
+      : { limited, retryAfterMs: 0 };
+  }
+
+  async peek(key: string, windowMs: number, maxUses: number) {
+    const now = Date.now();
+    const timestamps = this.recent(key, windowMs, now);
+    return timestamps.length >= maxUses
+      ? { limited: true, retryAfterMs: timestamps[0] + windowMs - now }
+      : { limited: false, retryAfterMs: 0 };
+  }
+
+  async release(key: string) {
+    this.hits.get(key)?.timestamps.pop();
+  }
+
+  async reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  private recent(key: string, windowMs: number, now: number): number[] {
+    return (this.hits.get(key)?.timestamps ?? []).filter(
+      (timestamp) => timestamp > now - windowMs
+    );
+  }
+
   /**
-   * Checks if a command is on cooldown for a user
-   *
-   * @param userId User ID
-   * @param command Command name
-   * @param cooldownMs Cooldown in milliseconds
-   * @param maxUses Maximum uses before triggering cooldown (default: 1)
-   * @returns Whether the command is on cooldown
+   * Removes expired cooldowns to prevent memory leaks
    */
-  isOnCooldown(
-    userId: string,
-    command: string,
-    cooldownMs: number,
-    maxUses: number = 1
-  ): boolean {
-    const key = `${userId}:${command}`;
+  private cleanup(): void {
     const now = Date.now();
+    let count = 0;
 
-    // Get current cooldown info
-    const cooldownInfo = this.cooldowns.get(key);
-
-    if (!cooldownInfo) {
-      // No cooldown yet, register first use
-      this.cooldowns.set(key, { timestamp: now, count: 1 });
-      return false;
+    for (const [key, entry] of this.hits.entries()) {
+      if (entry.expiresAt <= now) {
+        this.hits.delete(key);
+        count++;
+      }
     }
 
-    // Check if cooldown has expired
-    if (now - cooldownInfo.timestamp > cooldownMs) {
-      // Reset cooldown
-      this.cooldowns.set(key, { timestamp: now, count: 1 });
-      return false;
+    if (count > 0) {
+      log.debug(`Cleaned up ${count} expired cooldowns`);
     }
+  }
+}
 
-    // Increment usage count
-    cooldownInfo.count++;
-    this.cooldowns.set(key, cooldownInfo);
+/**
+ * Manages cooldowns for commands to prevent abuse
+ */
+export class CooldownManager {
+  // Used when the configured store is unreachable, so limits still apply
+  private fallback = new MemoryCooldownStore();
 
-    // On cooldown if usage count exceeds max uses
-    return cooldownInfo.count > maxUses;
+  constructor(private store: CooldownStore = new MemoryCooldownStore()) {}
+
+  /**
+   * Replace the backing store, e.g. with a shared MongoDB store once the
+   * database connection is available
+   */
+  setStore(store: CooldownStore): void {
+    this.store = store;
   }
 
   /**
-   * Gets the remaining cooldown time in seconds
+   * Record a use of a command and check whether it is on cooldown
+   *
+   * @param userId User ID
+   * @param command Command name
+   * @param cooldownMs Length of the sliding window in milliseconds
+   * @param maxUses Maximum uses within the window (default: 1)
    */
-  getRemainingCooldown(
+  async hit(
     userId: string,
     command: string,
-    cooldownMs: number
-  ): number {
+    cooldownMs: number,
+    maxUses: number = 1
+  ): Promise<CooldownHit> {
     const key = `${userId}:${command}`;
-    const cooldownInfo = this.cooldowns.get(key);
-
-    if (!cooldownInfo) {
-      return 0;
+    try {
+      return await this.store.hit(key, cooldownMs, maxUses);
+    } catch (error) {
+      log.error("Cooldown store failed, using in-memory cooldowns:", error);
+      return this.fallback.hit(key, cooldownMs, maxUses);
     }
-
-    const elapsed = Date.now() - cooldownInfo.timestamp;
-    const remaining = cooldownMs - elapsed;
-
-    return Math.max(0, Math.ceil(remaining / 1000));
   }
 
   /**
-   * Resets the cooldown for a user and command
+   * Check whether a command is on cooldown without recording a use, e.g.
+   * before other limits that may still refuse the call
    */
-  resetCooldown(userId: string, command: string): void {
+  async peek(
+    userId: string,
+    command: string,
+    cooldownMs: number,
+    maxUses: number = 1
+  ): Promise<CooldownHit> {
     const key = `${userId}:${command}`;
-    this.cooldowns.delete(key);
+    try {
+      return await this.store.peek(key, cooldownMs, maxUses);
+    } catch (error) {
+      log.error("Cooldown store failed, using in-memory cooldowns:", error);
+      return this.fallback.peek(key, cooldownMs, maxUses);
+    }
   }
 
   /**
-   * Removes expired cooldowns to prevent memory leaks
+   * Take back the latest recorded use of a command, when a later check
+   * refused the call after all
    */
-  private cleanup(): void {
-    const now = Date.now();
-    let count = 0;
-
-    for (const [key, info] of this.cooldowns.entries()) {
-      // Assume a max cooldown of 24 hours for cleanup
-      if (now - info.timestamp > 86400000) {
-        this.cooldowns.delete(key);
-        count++;
-      }
+  async release(userId: string, command: string): Promise<void> {
+    const key = `${userId}:${command}`;
+    try {
+      await this.store.release(key);
+    } catch (error) {
+      log.error("Cooldown store failed, using in-memory cooldowns:", error);
+      await this.fallback.release(key);
     }
+  }
 
-    if (count > 0) {
-      log.debug(`Cleaned up ${count} expired cooldowns`);
-    }
+  /**
+   * Resets the cooldown for a user and command
+   */
+  async resetCooldown(userId: string, command: string): Promise<void> {
+    const key = `${userId}:${command}`;
+    await Promise.all([this.store.reset(key), this.fallback.reset(key)]);
   }
 }
@@ -0,0 +1,107 @@
+import type { proto } from "baileys";
+import NodeCache from "node-cache";
+import { jobQueue } from "./JobQueue.js";
+import { ChatTransport, withSendMessage } from "./transport.js";
+
+// WhatsApp lets users edit a message for 15 minutes
+const EDIT_WINDOW_SECONDS = 15 * 60;
+
+export interface TrackedCommand {
+  jid: string;
+  user: string;
+  text: string; // Command text as it was last run
+  startedAt: number;
+  pending: boolean; // Still being handled
+  replies: proto.IMessageKey[]; // Text replies the bot sent, in order
+}
+
+/**
+ * Remembers recent command messages and the bot's replies to them, so an
+ * edited command can be run again, cancelled, or answered by editing the
+ * earlier replies.
+ */
+export class EditTracker {
+  private commands = new NodeCache({
+    stdTTL: EDIT_WINDOW_SECONDS,
+    useClones: false,
+  });
+
+  /**
+   * Start tracking a command message. Text replies sent through the
+   * returned transport are recorded; with `editReplies` they replace those
+   * earlier replies in order, and only extra replies are sent as new ones.
+   *
+   * @returns The transport to handle the command with, and a function to
+   * call once it has been handled
+   */
+  track(
+    id: string,
+    command: Pick<TrackedCommand, "jid" | "user" | "text">,
+    sock: ChatTransport,
+    editReplies: proto.IMessageKey[] = []
+  ): { sock: ChatTransport; done: () => void } {
+    const tracked: TrackedCommand = {
+      ...command,
+      startedAt: Date.now(),
+      pending: true,
+      replies: [],
+    };
+    this.commands.set(id, tracked);
+
+    const sendMessage: ChatTransport["sendMessage"] = async (
+      jid,
+      content,
+      options
+    ) => {
+      const isText = "text" in content && typeof content.text === "string";
+      if (!isText || jid !== tracked.jid) {
+        return sock.sendMessage(jid, content, options);
+      }
+
+      const previous = editReplies[tracked.replies.length];
+      const sent = await sock.sendMessage(
+        jid,
+        previous ? { ...content, edit: previous } : content,
+        previous ? undefined : options
+      );
+      const key = previous ?? sent?.key;
+      if (key) tracked.replies.push(key);
+      return sent;
+    };
+
+    return {
+      sock: withSendMessage(sock, sendMessage),
+      done: () => {
+        tracked.pending = false;
+      },
+    };
+  }
+
+  /**
+   * A command message sent within the edit window
+   */
+  get(id: string): TrackedCommand | undefined {
+    return this.commands.get<TrackedCommand>(id);
+  }
+
+  /**
+   * Cancel the jobs of a still pending command: those its author started in
+   * that chat since the command was sent
+   *
+   * @returns How many jobs were cancelled
+   */
+  cancelJobs(tracked: TrackedCommand): number {
+    if (!tracked.pending) return 0;
+
+    const jobs = jobQueue
+      .getJobs(tracked.user)
+      .filter(
+        (job) => job.jid === tracked.jid && job.createdAt >= tracked.startedAt
+      );
+    for (const job of jobs) jobQueue.cancel(tracked.user, job.id);
+    return jobs.length;
+  }
+}
+
+// Shared by MessageRouter instances, like the job queue it cancels
+export const editTracker = new EditTracker();
@@ -0,0 +1,174 @@
+import {
+  BotConfig,
+  FloodProtectionConfig,
+  TokenBucketConfig,
+  log,
+} from "./config.js";
+
+export interface FloodVerdict {
+  allowed: boolean;
+  // Set only for the message that started a mute, so the offender is warned
+  // once instead of on every ignored message
+  muted?: { scope: "user" | "chat"; durationMs: number };
+}
+
+export interface MuteInfo {
+  key: string; // JID of the muted user or chat
+  scope: "user" | "chat";
+  strikes: number;
+  mutedUntil: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  strikes: number;
+  lastStrikeAt: number;
+  mutedUntil: number;
+}
+
+/**
+ * Token-bucket flood protection for incoming commands, with escalating
+ * temporary mutes for users and chats that keep exceeding their rate
+ */
+export class FloodGuard {
+  private buckets: Map<string, BucketState> = new Map();
+  private readonly cleanupInterval = 3600000; // 1 hour in milliseconds
+  // Last config passed to check(), so cleanup follows config changes
+  private config: FloodProtectionConfig = BotConfig.floodProtection;
+
+  constructor() {
+    setInterval(() => this.cleanup(), this.cleanupInterval);
+  }
+
+  /**
+   * Take one token from the user's bucket and, in groups, the chat's bucket
+   */
+  check(
+    user: string,
+    chat: string,
+    config: FloodProtectionConfig = BotConfig.floodProtection
+  ): FloodVerdict {
+    this.config = config;
+    if (!config.enabled) return { allowed: true };
+
+    const now = Date.now();
+    const userKey = `user:${user}`;
+    const chatKey = `chat:${chat}`;
+    const isGroup = chat.endsWith("@g.us");
+
+    // Ignored messages must not drain the chat bucket for everyone else
+    if (this.isMuted(userKey, now) || (isGroup && this.isMuted(chatKey, now))) {
+      return { allowed: false };
+    }
+
+    const verdict = this.take(userKey, "user", config.user, config, now);
+    if (!verdict.allowed || !isGroup) return verdict;
+
+    return this.take(chatKey, "chat", config.chat, config, now);
+  }
+
+  private isMuted(key: string, now: number): boolean {
+    return (this.buckets.get(key)?.mutedUntil ?? 0) > now;
+  }
+
+  private take(
+    key: string,
+    scope: MuteInfo["scope"],
+    bucketConfig: TokenBucketConfig,
+    config: FloodProtectionConfig,
+    now: number
+  ): FloodVerdict {
+    const state = this.buckets.get(key) ?? {
+      tokens: bucketConfig.capacity,
+      updatedAt: now,
+      strikes: 0,
+      lastStrikeAt: 0,
+      mutedUntil: 0,
+    };
+    this.buckets.set(key, state);
+
+    const elapsedMinutes = Math.max(0, now - state.updatedAt) / 60000;
+    state.tokens = Math.min(
+      bucketConfig.capacity,
+      state.tokens + elapsedMinutes * bucketConfig.refillPerMinute
+    );
+    state.updatedAt = now;
+
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return { allowed: true };
+    }
+
+    if (now - state.lastStrikeAt > config.strikeResetMs) state.strikes = 0;
+    state.strikes++;
+    state.lastStrikeAt = now;
+
+    const durations = config.muteDurations;
+    const durationMs =
+      durations[Math.min(state.strikes, durations.length) - 1] ?? 60000;
+    state.mutedUntil = now + durationMs;
+    // Start with a full bucket once the mute is over
+    state.tokens = bucketConfig.capacity;
+
+    log.warn(`Flood protection muted ${key} for ${durationMs / 1000}s`);
+    return { allowed: false, muted: { scope, durationMs } };
+  }
+
+  /**
+   * Users and chats that are currently muted
+   */
+  getMutes(): MuteInfo[] {
+    const now = Date.now();
+    return Array.from(this.buckets.entries())
+      .filter(([, state]) => state.mutedUntil > now)
+      .map(([key, state]) => {
+        const [scope, ...rest] = key.split(":");
+        return {
+          key: rest.join(":"),
+          scope: scope as MuteInfo["scope"],
+          strikes: state.strikes,
+          mutedUntil: state.mutedUntil,
+        };
+      });
+  }
+
+  /**
+   * Lift the mute of a user or chat
+   *
+   * @param forgive Also clear past offences, so the next mute starts short
+   * @returns Whether anything was muted
+   */
+  unmute(jid: string, forgive: boolean = false): boolean {
+    const now = Date.now();
+    let lifted = false;
+
+    for (const key of [`user:${jid}`, `chat:${jid}`]) {
+      const state = this.buckets.get(key);
+      if (!state) continue;
+      if (state.mutedUntil > now) lifted = true;
+      state.mutedUntil = 0;
+      if (forgive) state.strikes = 0;
+    }
+
+    return lifted;
+  }
+
+  /**
+   * Removes idle buckets to prevent memory leaks
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, state] of this.buckets.entries()) {
+      if (
+        state.mutedUntil <= now &&
+        now - state.updatedAt > this.config.strikeResetMs
+      ) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+// Shared by BotClient and the antispam command
+export const floodGuard = new FloodGuard();
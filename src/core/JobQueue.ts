@@ -0,0 +1,231 @@
+import { BotConfig, JobQueueConfig, getCurrentConfig, log } from "./config.js";
+import { Language, createTranslator } from "./i18n.js";
+import { ChatTransport } from "./transport.js";
+
+export interface JobOptions {
+  type: string; // Key of JobQueueConfig.concurrency, e.g. "ytdl"
+  user: string;
+  jid: string;
+  label: string; // Shown when listing or cancelling, e.g. the URL
+}
+
+export interface JobInfo extends JobOptions {
+  id: number;
+  state: "queued" | "running";
+  position: number; // Place in the queue of its type, 0 when running
+  createdAt: number;
+}
+
+/**
+ * Thrown by JobQueue.enqueue when the user already has too many jobs
+ */
+export class JobLimitError extends Error {
+  constructor(public readonly limit: number) {
+    super(`User already has ${limit} queued or running jobs`);
+    this.name = "JobLimitError";
+  }
+}
+
+/**
+ * Rejects the result of a job cancelled by its owner
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+interface Job extends JobOptions {
+  id: number;
+  state: JobInfo["state"];
+  createdAt: number;
+  controller: AbortController;
+  start: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * FIFO queue for heavy work (yt-dlp, ffmpeg, image generation) with a
+ * concurrency limit per job type and a limit on jobs per user
+ */
+export class JobQueue {
+  private jobs: Job[] = []; // Queued and running, in arrival order
+  private nextId = 1;
+  private config: JobQueueConfig = BotConfig.jobQueue;
+
+  /**
+   * Add a job. The task receives an AbortSignal that fires when the job is
+   * cancelled and should stop any child process it started.
+   *
+   * @throws JobLimitError when the user already has too many jobs
+   */
+  enqueue<T>(
+    options: JobOptions,
+    task: (signal: AbortSignal) => Promise<T>,
+    config: JobQueueConfig = BotConfig.jobQueue
+  ): { id: number; position: number; result: Promise<T> } {
+    this.config = config;
+
+    const active = this.jobs.filter((job) => job.user === options.user);
+    if (active.length >= config.maxJobsPerUser) {
+      throw new JobLimitError(config.maxJobsPerUser);
+    }
+
+    const controller = new AbortController();
+    let job!: Job;
+    const result = new Promise<T>((resolve, reject) => {
+      job = {
+        ...options,
+        id: this.nextId++,
+        state: "queued",
+        createdAt: Date.now(),
+        controller,
+        reject,
+        start: () => {
+          job.state = "running";
+          task(controller.signal)
+            .then(resolve, reject)
+            .finally(() => {
+              this.remove(job);
+              this.drain();
+            });
+        },
+      };
+    });
+
+    this.jobs.push(job);
+    this.drain();
+    return { id: job.id, position: this.positionOf(job), result };
+  }
+
+  /**
+   * Cancel jobs of a user: queued jobs are dropped, running jobs are aborted
+   *
+   * @param id Only cancel this job; all of the user's jobs when omitted
+   * @returns The cancelled jobs
+   */
+  cancel(user: string, id?: number): JobInfo[] {
+    const targets = this.jobs.filter(
+      (job) => job.user === user && (id === undefined || job.id === id)
+    );
+
+    const cancelled = targets.map((job) => this.toInfo(job));
+    for (const job of targets) {
+      if (job.state === "queued") {
+        this.remove(job);
+      } else {
+        // The slot is freed once the task has actually stopped
+        job.controller.abort();
+      }
+      job.reject(new JobCancelledError());
+    }
+
+    if (cancelled.length > 0) {
+      log.info(`Cancelled ${cancelled.length} job(s) of ${user}`);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Queued and running jobs, optionally only those of one user
+   */
+  getJobs(user?: string): JobInfo[] {
+    return this.jobs
+      .filter((job) => user === undefined || job.user === user)
+      .map((job) => this.toInfo(job));
+  }
+
+  private drain(): void {
+    for (const job of this.jobs) {
+      if (job.state !== "queued") continue;
+
+      const running = this.jobs.filter(
+        (other) => other.type === job.type && other.state === "running"
+      ).length;
+      if (running < (this.config.concurrency[job.type] ?? 1)) {
+        job.start();
+      }
+    }
+  }
+
+  private remove(job: Job): void {
+    const index = this.jobs.indexOf(job);
+    if (index !== -1) this.jobs.splice(index, 1);
+  }
+
+  private positionOf(job: Job): number {
+    if (job.state === "running") return 0;
+    return (
+      this.jobs
+        .filter((other) => other.type === job.type && other.state === "queued")
+        .indexOf(job) + 1
+    );
+  }
+
+  private toInfo(job: Job): JobInfo {
+    const { id, type, user, jid, label, state, createdAt } = job;
+    return {
+      id,
+      type,
+      user,
+      jid,
+      label,
+      state,
+      position: this.positionOf(job),
+      createdAt,
+    };
+  }
+}
+
+// Shared by all heavy commands and the cancel command
+export const jobQueue = new JobQueue();
+
+/**
+ * Run a command's heavy work through the shared queue, telling the user
+ * their place in the queue when the job has to wait
+ *
+ * @param language Language of those messages, defaults to the bot's
+ * @returns The task result, or undefined when the job was refused or
+ * cancelled (the user has already been told)
+ */
+export async function runQueuedJob<T>(
+  sock: ChatTransport,
+  options: JobOptions,
+  task: (signal: AbortSignal) => Promise<T>,
+  language?: Language
+): Promise<T | undefined> {
+  const config = await getCurrentConfig();
+  const t = createTranslator(language ?? config.language, config);
+
+  let job: ReturnType<typeof jobQueue.enqueue<T>>;
+  try {
+    job = jobQueue.enqueue(options, task, config.jobQueue);
+  } catch (error) {
+    if (!(error instanceof JobLimitError)) throw error;
+    await sock.sendMessage(options.jid, {
+      text: `${config.emoji.error} ${t("jobLimit", {
+        limit: error.limit,
+        prefix: config.prefix,
+      })}`,
+    });
+    return undefined;
+  }
+
+  if (job.position > 0) {
+    await sock.sendMessage(options.jid, {
+      text: `⏳ ${t("jobQueued", {
+        position: job.position,
+        prefix: config.prefix,
+        id: job.id,
+      })}`,
+    });
+  }
+
+  try {
+    return await job.result;
+  } catch (error) {
+    if (error instanceof JobCancelledError) return undefined;
+    throw error;
+  }
+}
@@ -0,0 +1,119 @@
+import type {
+  AnyMessageContent,
+  GroupMetadata,
+  MiscMessageGenerationOptions,
+  WAPresence,
+  proto,
+} from "baileys";
+import { randomBytes } from "crypto";
+import { ChatTransport } from "./transport.js";
+
+export interface SentMessage {
+  id: string;
+  jid: string;
+  content: AnyMessageContent;
+  options?: MiscMessageGenerationOptions;
+  timestamp: number;
+}
+
+/**
+ * ChatTransport that keeps everything in memory instead of talking to
+ * WhatsApp. Used by tests and the console simulator.
+ */
+export class MemoryTransport implements ChatTransport {
+  readonly sent: SentMessage[] = [];
+  readonly presence: { type: WAPresence; jid?: string }[] = [];
+  readonly read: proto.IMessageKey[] = [];
+  private groups = new Map<string, GroupMetadata>();
+  private listeners: ((message: SentMessage) => void)[] = [];
+
+  constructor(
+    public user: { id: string; lid?: string } = { id: "0@s.whatsapp.net" }
+  ) {}
+
+  async sendMessage(
+    jid: string,
+    content: AnyMessageContent,
+    options?: MiscMessageGenerationOptions
+  ): Promise<proto.WebMessageInfo | undefined> {
+    const message = this.record(jid, content, options);
+    return {
+      key: { remoteJid: jid, fromMe: true, id: message.id },
+      message:
+        "text" in content && typeof content.text === "string"
+          ? { conversation: content.text }
+          : undefined,
+      messageTimestamp: Math.floor(message.timestamp / 1000),
+    } as proto.WebMessageInfo;
+  }
+
+  async sendPresenceUpdate(type: WAPresence, jid?: string): Promise<void> {
+    this.presence.push({ type, jid });
+  }
+
+  async readMessages(keys: proto.IMessageKey[]): Promise<void> {
+    this.read.push(...keys);
+  }
+
+  async groupMetadata(jid: string): Promise<GroupMetadata> {
+    const metadata = this.groups.get(jid);
+    if (!metadata) throw new Error(`Unknown group ${jid}`);
+    return metadata;
+  }
+
+  /**
+   * Make a group known to groupMetadata, e.g. to test group admin roles
+   */
+  setGroup(metadata: GroupMetadata): void {
+    this.groups.set(metadata.id, metadata);
+  }
+
+  /**
+   * Call the listener for every message sent from now on
+   *
+   * @returns A function that removes the listener
+   */
+  onMessage(listener: (message: SentMessage) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    };
+  }
+
+  /**
+   * Text of the plain text messages sent so far, optionally to one chat
+   */
+  texts(jid?: string): string[] {
+    return this.sent
+      .filter((message) => jid === undefined || message.jid === jid)
+      .map((message) => message.content)
+      .filter(
+        (content): content is { text: string } =>
+          "text" in content && typeof content.text === "string"
+      )
+      .map((content) => content.text);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+    this.presence.length = 0;
+    this.read.length = 0;
+  }
+
+  private record(
+    jid: string,
+    content: AnyMessageContent,
+    options?: MiscMessageGenerationOptions
+  ): SentMessage {
+    const message: SentMessage = {
+      id: randomBytes(8).toString("hex").toUpperCase(),
+      jid,
+      content,
+      options,
+      timestamp: Date.now(),
+    };
+    this.sent.push(message);
+    for (const listener of this.listeners) listener(message);
+    return message;
+  }
+}
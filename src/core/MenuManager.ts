@@ -0,0 +1,115 @@
+import NodeCache from "node-cache";
+import { getCurrentConfig, log } from "./config.js";
+import { MAX_POLL_OPTIONS, PollVote, pollManager } from "./PollManager.js";
+import { ChatTransport } from "./transport.js";
+
+/**
+ * How menus offer their choices. WhatsApp list and button messages are not
+ * offered: many clients silently drop them without an error, so a text
+ * fallback could never kick in. Polls show up everywhere.
+ */
+export type MenuStyle = "poll" | "text";
+
+export const MENU_STYLES: MenuStyle[] = ["poll", "text"];
+
+export function isMenuStyle(value: unknown): value is MenuStyle {
+  return MENU_STYLES.includes(value as MenuStyle);
+}
+
+export interface MenuOption {
+  command: string; // Full command text run when picked, e.g. "!help ban"
+  title: string;
+}
+
+export interface Menu {
+  title: string; // Poll question
+  options: MenuOption[];
+  fallback: string; // Plain text with every choice, always sent
+}
+
+// How long votes on a menu poll are still routed to commands
+const POLL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Sends selectable menus as WhatsApp polls and turns the user's vote back
+ * into the command text it stands for
+ */
+export class MenuManager {
+  // Poll message ID -> option title -> command
+  private polls = new NodeCache({
+    stdTTL: POLL_TTL_SECONDS,
+    useClones: false,
+  });
+
+  /**
+   * Send a menu in the given style. The plain text version always goes
+   * out, so the choices can be read and typed even where polls are missing
+   * or when the poll cannot be sent; "poll" adds a poll to pick from.
+   */
+  async send(
+    sock: ChatTransport,
+    jid: string,
+    menu: Menu,
+    style: MenuStyle
+  ): Promise<void> {
+    await sock.sendMessage(jid, { text: menu.fallback });
+    if (style !== "poll") return;
+
+    await this.sendPoll(sock, jid, menu.title, menu.options).catch((error) =>
+      log.warn("Failed to send menu poll:", error)
+    );
+  }
+
+  /**
+   * Command text picked by voting in a menu poll, or undefined when the
+   * vote is not for a menu
+   *
+   * @param vote The message's poll vote, as recorded by PollManager
+   */
+  getSelectedCommand(vote?: PollVote): string | undefined {
+    if (!vote || vote.selected.length === 0) return undefined;
+
+    const commands = this.polls.get<Map<string, string>>(vote.pollId);
+    return commands?.get(vote.selected[0]);
+  }
+
+  private async sendPoll(
+    sock: ChatTransport,
+    jid: string,
+    title: string,
+    options: MenuOption[]
+  ): Promise<void> {
+    // Poll options are matched by title, so each title may appear only once
+    const commands = new Map<string, string>();
+    for (const option of options) {
+      if (commands.size === MAX_POLL_OPTIONS) break;
+      if (!commands.has(option.title)) {
+        commands.set(option.title, option.command);
+      }
+    }
+    if (commands.size < 2) return;
+
+    const pollId = await pollManager.create(sock, {
+      jid,
+      question: title,
+      options: [...commands.keys()],
+      trackSeconds: POLL_TTL_SECONDS,
+    });
+    this.polls.set(pollId, commands);
+  }
+}
+
+// Shared by every command that shows a menu and by BotClient for the replies
+export const menuManager = new MenuManager();
+
+/**
+ * Send a menu in the style set in the bot config
+ */
+export async function sendMenu(
+  sock: ChatTransport,
+  jid: string,
+  menu: Menu
+): Promise<void> {
+  const config = await getCurrentConfig();
+  await menuManager.send(sock, jid, menu, config.menuStyle);
+}
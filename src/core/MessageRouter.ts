@@ -0,0 +1,226 @@
+import type { proto } from "baileys";
+import { CommandHandler } from "./CommandHandler.js";
+import { BotConfig, getCurrentConfig } from "./config.js";
+import { floodGuard } from "./FloodGuard.js";
+import { createTranslator } from "./i18n.js";
+import { menuManager } from "./MenuManager.js";
+import { editTracker } from "./EditTracker.js";
+import {
+  NormalizedMessage,
+  normalizeMessage,
+  toCommandMessage,
+} from "./message.js";
+import { pollManager } from "./PollManager.js";
+import { ChatTransport } from "./transport.js";
+
+/**
+ * Turns incoming chat messages into commands: mention prefixes, "did you
+ * mean" confirmations, menu picks, poll votes and edited commands, with
+ * ban checks and flood protection in front of the command handler.
+ * BotClient feeds it every new message.
+ */
+export class MessageRouter {
+  constructor(
+    private commandHandler: CommandHandler,
+    private transport: ChatTransport,
+    private botId: string | null = null // Phone number part of the bot JID
+  ) {}
+
+  async route(m: proto.IWebMessageInfo): Promise<void> {
+    if (!m.message) return;
+
+    // Get current config for allowFromMe check
+    const config = await getCurrentConfig().catch(() => BotConfig);
+    if (m.key.fromMe && !config.allowFromMe) return;
+
+    const jid = m.key.remoteJid!;
+    const user = m.key.participant || jid;
+    // Before anything else, so banned users can't vote, drain the flood
+    // buckets or get the chat muted
+    if (await this.commandHandler.isBanned(user)) return;
+
+    // Commands can come as captions or inside ephemeral/view once wrappers
+    const normalized = normalizeMessage(m);
+    if (normalized.isEdit) {
+      await this.routeEdit(m, normalized);
+      return;
+    }
+    const msg = toCommandMessage(m, normalized);
+
+    // Votes are tallied for the polls this bot created
+    const vote = msg.message?.pollUpdateMessage
+      ? pollManager.recordVote(msg, this.transport)
+      : undefined;
+
+    // Picks from menus arrive as the command text they stand for
+    const text = normalized.text || menuManager.getSelectedCommand(vote) || "";
+
+    if (
+      config.allowMentionPrefix &&
+      this.botId &&
+      text.includes(`@${this.botId}`)
+    ) {
+      const commandText = this.extractCommandFromMention(text, this.botId);
+      if (commandText && (await this.passesFloodGuard(jid, user))) {
+        await this.runCommand(
+          (await this.commandHandler.getPrefix(jid)) + commandText,
+          jid,
+          user,
+          msg
+        );
+      }
+      return;
+    }
+
+    // Confirming a suggestion runs it like a typed command
+    const suggested = this.commandHandler.takeConfirmedSuggestion(
+      text,
+      jid,
+      user
+    );
+    if (suggested !== null) {
+      if (await this.passesFloodGuard(jid, user)) {
+        await this.runCommand(suggested, jid, user, msg);
+      }
+      return;
+    }
+
+    if (
+      (await this.commandHandler.isCommand(text, jid)) &&
+      (await this.passesFloodGuard(jid, user))
+    ) {
+      await this.runCommand(text, jid, user, msg);
+    }
+  }
+
+  /**
+   * Follow an edit of a recent command message: a still pending original
+   * is cancelled and the corrected command runs, answering by editing the
+   * earlier replies when editReplies is on
+   */
+  private async routeEdit(
+    m: proto.IWebMessageInfo,
+    normalized: NormalizedMessage
+  ): Promise<void> {
+    const jid = m.key.remoteJid!;
+    const user = m.key.participant || jid;
+    const tracked = normalized.editedId
+      ? editTracker.get(normalized.editedId)
+      : undefined;
+    // Only the author's edits of commands from the last 15 minutes count
+    if (!tracked || tracked.user !== user || tracked.jid !== jid) return;
+
+    const config = await getCurrentConfig().catch(() => BotConfig);
+    let text = normalized.text;
+    if (
+      config.allowMentionPrefix &&
+      this.botId &&
+      text.includes(`@${this.botId}`)
+    ) {
+      const commandText = this.extractCommandFromMention(text, this.botId);
+      if (!commandText) return;
+      text = (await this.commandHandler.getPrefix(jid)) + commandText;
+    }
+    if (text === tracked.text) return;
+
+    editTracker.cancelJobs(tracked);
+    if (
+      !(await this.commandHandler.isCommand(text, jid)) ||
+      !(await this.passesFloodGuard(jid, user))
+    ) {
+      return;
+    }
+
+    // Replies quote the message the user sees, not the edit event
+    const msg = toCommandMessage(
+      { ...m, key: { ...m.key, id: normalized.editedId } },
+      normalized
+    );
+    await this.runCommand(
+      text,
+      jid,
+      user,
+      msg,
+      config.editReplies ? tracked.replies : undefined
+    );
+  }
+
+  /**
+   * Handle a command, remembering it and its replies so it can be edited
+   */
+  private async runCommand(
+    text: string,
+    jid: string,
+    user: string,
+    msg: proto.IWebMessageInfo,
+    editReplies?: proto.IMessageKey[]
+  ): Promise<void> {
+    if (!msg.key.id) {
+      await this.commandHandler.handleCommand(
+        text,
+        jid,
+        user,
+        this.transport,
+        msg
+      );
+      return;
+    }
+
+    const { sock, done } = editTracker.track(
+      msg.key.id,
+      { jid, user, text },
+      this.transport,
+      editReplies
+    );
+    try {
+      await this.commandHandler.handleCommand(text, jid, user, sock, msg);
+    } finally {
+      done();
+    }
+  }
+
+  /**
+   * Rate-limit commands per user and per group before they are dispatched.
+   * Bot admins are never limited.
+   *
+   * @returns Whether the command may run
+   */
+  private async passesFloodGuard(jid: string, user: string): Promise<boolean> {
+    const config = await getCurrentConfig().catch(() => BotConfig);
+    if (config.admins.includes(user)) return true;
+
+    const verdict = floodGuard.check(user, jid, config.floodProtection);
+    if (verdict.muted) {
+      const minutes = Math.ceil(verdict.muted.durationMs / 60000);
+      const t = await this.commandHandler
+        .getTranslator(jid, user)
+        .catch(() => createTranslator(config.language, config));
+      await this.transport.sendMessage(
+        jid,
+        verdict.muted.scope === "user"
+          ? {
+              text: `${config.emoji.error} ${t("floodUserMuted", {
+                user: `@${user.split("@")[0]}`,
+                minutes,
+              })}`,
+              mentions: [user],
+            }
+          : {
+              text: `${config.emoji.error} ${t("floodChatMuted", {
+                minutes,
+              })}`,
+            }
+      );
+    }
+    return verdict.allowed;
+  }
+
+  private extractCommandFromMention(
+    text: string,
+    botId: string
+  ): string | null {
+    const mentionPattern = new RegExp(`@${botId}\\s+(.+)`, "i");
+    const match = text.match(mentionPattern);
+    return match ? match[1].trim() : null;
+  }
+}
@@ -0,0 +1,253 @@
+import { decryptPollVote, jidNormalizedUser, proto } from "baileys";
+import { createCipheriv, createHash, createHmac, randomBytes } from "crypto";
+import NodeCache from "node-cache";
+import { log } from "./config.js";
+import { ChatTransport } from "./transport.js";
+
+// WhatsApp allows at most 12 options per poll
+export const MAX_POLL_OPTIONS = 12;
+
+// How long votes are tracked for polls created without a duration
+const DEFAULT_TRACK_SECONDS = 60 * 60;
+
+export interface CreatePollOptions {
+  jid: string;
+  question: string;
+  options: string[]; // Must be unique; votes are matched by option text
+  selectableCount?: number; // Options one voter may pick, 0 for any number
+  trackSeconds?: number; // How long votes are recorded
+  quoted?: proto.IWebMessageInfo;
+}
+
+export interface PollVote {
+  pollId: string;
+  jid: string;
+  voter: string;
+  selected: string[]; // Option texts; empty when the vote was taken back
+}
+
+export interface PollResult {
+  pollId: string;
+  question: string;
+  tally: { option: string; voters: string[] }[]; // In option order
+  totalVoters: number;
+}
+
+interface TrackedPoll {
+  jid: string;
+  question: string;
+  options: string[];
+  hashes: Map<string, string>; // sha256 hex of the option -> option
+  secret: Uint8Array; // Poll encryption key, needed to read votes
+  votes: Map<string, string[]>; // Voter -> latest selection
+  onVote?: (vote: PollVote) => void;
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Encrypt a vote the way WhatsApp clients do, so the simulator and tests can
+ * vote on polls this bot sent
+ */
+export function encryptPollVote(
+  selectedOptions: string[],
+  context: Parameters<typeof decryptPollVote>[1]
+): proto.Message.IPollEncValue {
+  const { pollCreatorJid, pollMsgId, pollEncKey, voterJid } = context;
+  const sign = Buffer.concat([
+    Buffer.from(pollMsgId),
+    Buffer.from(pollCreatorJid),
+    Buffer.from(voterJid),
+    Buffer.from("Poll Vote"),
+    Buffer.from([1]),
+  ]);
+  const key0 = createHmac("sha256", new Uint8Array(32))
+    .update(pollEncKey)
+    .digest();
+  const key = createHmac("sha256", key0).update(sign).digest();
+
+  const encIv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, encIv);
+  cipher.setAAD(Buffer.from(`${pollMsgId}\u0000${voterJid}`));
+  const plaintext = proto.Message.PollVoteMessage.encode({
+    selectedOptions: selectedOptions.map((option) =>
+      Buffer.from(sha256(option), "hex")
+    ),
+  }).finish();
+
+  return {
+    encPayload: Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]),
+    encIv,
+  };
+}
+
+/**
+ * Creates native WhatsApp polls and keeps a tally of the votes on them.
+ * Votes arrive encrypted as pollUpdateMessage and are decrypted with the
+ * secret the poll was created with, so only polls sent by this process
+ * can be tallied.
+ */
+export class PollManager {
+  private polls = new NodeCache({
+    stdTTL: DEFAULT_TRACK_SECONDS,
+    useClones: false,
+  });
+
+  /**
+   * Send a poll and start recording its votes
+   *
+   * @returns The poll message ID, used to read the result
+   */
+  async create(
+    sock: ChatTransport,
+    options: CreatePollOptions,
+    onVote?: (vote: PollVote) => void
+  ): Promise<string> {
+    const values = [...new Set(options.options)];
+    if (values.length < 2 || values.length > MAX_POLL_OPTIONS) {
+      throw new Error(
+        `A poll needs 2 to ${MAX_POLL_OPTIONS} different options, got ${values.length}`
+      );
+    }
+
+    const secret = randomBytes(32);
+    const sent = await sock.sendMessage(
+      options.jid,
+      {
+        poll: {
+          name: options.question,
+          values,
+          selectableCount: options.selectableCount ?? 1,
+          messageSecret: secret,
+        },
+      },
+      { quoted: options.quoted ?? undefined }
+    );
+    if (!sent?.key.id) throw new Error("Poll message was not sent");
+
+    this.polls.set<TrackedPoll>(
+      sent.key.id,
+      {
+        jid: options.jid,
+        question: options.question,
+        options: values,
+        hashes: new Map(values.map((value) => [sha256(value), value])),
+        secret,
+        votes: new Map(),
+        onVote,
+      },
+      options.trackSeconds ?? DEFAULT_TRACK_SECONDS
+    );
+    return sent.key.id;
+  }
+
+  /**
+   * Create a poll, wait for the given time and return the tally. The poll
+   * stops being tracked once the result is returned.
+   */
+  async collect(
+    sock: ChatTransport,
+    options: CreatePollOptions,
+    durationMs: number
+  ): Promise<PollResult> {
+    const pollId = await this.create(sock, {
+      ...options,
+      // Keep it around a little longer than the wait itself
+      trackSeconds: Math.ceil(durationMs / 1000) + 60,
+    });
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+
+    const result = this.getResult(pollId);
+    this.polls.del(pollId);
+    if (!result) throw new Error(`Poll ${pollId} expired before it ended`);
+    return result;
+  }
+
+  /**
+   * Current tally of a tracked poll
+   */
+  getResult(pollId: string): PollResult | undefined {
+    const poll = this.polls.get<TrackedPoll>(pollId);
+    if (!poll) return undefined;
+
+    return {
+      pollId,
+      question: poll.question,
+      tally: poll.options.map((option) => ({
+        option,
+        voters: [...poll.votes]
+          .filter(([, selected]) => selected.includes(option))
+          .map(([voter]) => voter),
+      })),
+      totalVoters: [...poll.votes.values()].filter((s) => s.length > 0).length,
+    };
+  }
+
+  /**
+   * Record a pollUpdateMessage. A voter's new vote replaces their old one.
+   *
+   * @returns The decrypted vote, or undefined when the message is not a vote
+   * on a poll tracked here
+   */
+  recordVote(
+    msg: proto.IWebMessageInfo,
+    sock: ChatTransport
+  ): PollVote | undefined {
+    const update = msg.message?.pollUpdateMessage;
+    const pollId = update?.pollCreationMessageKey?.id;
+    const poll = pollId ? this.polls.get<TrackedPoll>(pollId) : undefined;
+    if (!update?.vote || !pollId || !poll) return undefined;
+
+    const voter = jidNormalizedUser(
+      msg.key.participant || msg.key.remoteJid || undefined
+    );
+    const selected = this.decrypt(update.vote, pollId, poll, voter, sock);
+    if (!selected) return undefined;
+
+    poll.votes.set(voter, selected);
+    const vote = { pollId, jid: poll.jid, voter, selected };
+    poll.onVote?.(vote);
+    return vote;
+  }
+
+  private decrypt(
+    vote: proto.Message.IPollEncValue,
+    pollId: string,
+    poll: TrackedPoll,
+    voter: string,
+    sock: ChatTransport
+  ): string[] | undefined {
+    // Polls in LID groups are signed with the bot's LID instead of its number
+    const creators = [sock.user?.id, sock.user?.lid]
+      .filter((jid): jid is string => !!jid)
+      .map((jid) => jidNormalizedUser(jid));
+
+    for (const creator of creators) {
+      try {
+        const { selectedOptions } = decryptPollVote(vote, {
+          pollCreatorJid: creator,
+          pollMsgId: pollId,
+          pollEncKey: poll.secret,
+          voterJid: voter,
+        });
+        return selectedOptions
+          .map((hash) => poll.hashes.get(Buffer.from(hash).toString("hex")))
+          .filter((option): option is string => option !== undefined);
+      } catch {
+        // Wrong creator JID, try the next one
+      }
+    }
+
+    log.debug(`Could not decrypt vote of ${voter} on poll ${pollId}`);
+    return undefined;
+  }
+}
+
+// Shared by commands that run polls, MenuManager and BotClient
+export const pollManager = new PollManager();
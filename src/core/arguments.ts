@@ -0,0 +1,324 @@
+import { proto } from "baileys";
+import { CommandInfo } from "./CommandInterface.js";
+import { MessageKey, MessageParams, Translator, interpolate } from "./i18n.js";
+import { id } from "../locales/id.js";
+import { Token, tokenize } from "./tokenizer.js";
+
+export type ArgType = "string" | "number" | "jid" | "url" | "enum";
+
+export interface ArgDefinition {
+  name: string;
+  type: ArgType;
+  description?: string;
+  required?: boolean; // Defaults to true
+  choices?: string[]; // Allowed values for "enum"
+  rest?: boolean; // Consume all remaining tokens (joined with spaces); last arg only
+  min?: number; // Lower bound for "number"
+  max?: number; // Upper bound for "number"
+}
+
+export interface FlagDefinition {
+  name: string; // Used as --name
+  alias?: string; // Used as -alias
+  type: "boolean" | "string" | "number";
+  description?: string;
+}
+
+export interface SubcommandDefinition {
+  name: string;
+  aliases?: string[];
+  description?: string;
+  args?: ArgDefinition[];
+  flags?: FlagDefinition[];
+}
+
+export interface ArgSchema {
+  subcommands?: SubcommandDefinition[];
+  subcommandRequired?: boolean; // Defaults to true; else no args parse to no subcommand
+  args?: ArgDefinition[]; // Used when there are no subcommands
+  flags?: FlagDefinition[]; // Shared by every subcommand
+  examples?: string[]; // Without prefix, e.g. "leaderboard hangman"
+}
+
+export type ArgValue = string | number;
+
+export interface ParsedArgs {
+  subcommand?: string; // Canonical subcommand name
+  values: Record<string, ArgValue | undefined>;
+  flags: Record<string, string | number | boolean>;
+}
+
+/**
+ * Thrown when user input does not match a command's argument schema. The
+ * message is the Indonesian text; render `key` with the user's translator.
+ */
+export class ArgumentError extends Error {
+  constructor(readonly key: MessageKey, readonly params: MessageParams = {}) {
+    super(interpolate(id[key], params));
+    this.name = "ArgumentError";
+  }
+}
+
+const JID_SUFFIX = "@s.whatsapp.net";
+
+/**
+ * Parse the raw argument string of a command against a schema. Quoted values
+ * stay together, and a "rest" argument keeps the original text (including
+ * newlines) of everything it covers.
+ *
+ * @throws ArgumentError when a required value is missing or has the wrong type
+ */
+export function parseArgs(
+  schema: ArgSchema,
+  input: string,
+  msg?: proto.IWebMessageInfo
+): ParsedArgs {
+  const result: ParsedArgs = { values: {}, flags: {} };
+  let tokens = tokenize(input);
+  let argDefs = schema.args ?? [];
+  let flagDefs = schema.flags ?? [];
+
+  if (schema.subcommands && schema.subcommands.length > 0) {
+    const token = tokens[0]?.value.toLowerCase();
+    if (!token) {
+      if (schema.subcommandRequired === false) return result;
+      throw new ArgumentError("argSubcommandMissing");
+    }
+    const subcommand = schema.subcommands.find(
+      (sub) => sub.name === token || sub.aliases?.includes(token)
+    );
+    if (!subcommand) {
+      throw new ArgumentError("argSubcommandUnknown", {
+        value: tokens[0].value,
+      });
+    }
+    result.subcommand = subcommand.name;
+    tokens = tokens.slice(1);
+    argDefs = subcommand.args ?? [];
+    flagDefs = [...flagDefs, ...(subcommand.flags ?? [])];
+  }
+
+  const positional = extractFlags(tokens, flagDefs, result.flags);
+
+  for (let i = 0; i < argDefs.length; i++) {
+    const def = argDefs[i];
+    const raw = def.rest
+      ? restValue(input, positional.slice(i))
+      : positional[i]?.value;
+
+    if (raw === undefined) {
+      if (def.required !== false) {
+        throw new ArgumentError("argRequired", { name: def.name });
+      }
+      continue;
+    }
+
+    result.values[def.name] = convertValue(def, raw, msg);
+    if (def.rest) break;
+  }
+
+  return result;
+}
+
+function restValue(input: string, tokens: Token[]): string | undefined {
+  if (tokens.length === 0) return undefined;
+  if (tokens.length === 1) return tokens[0].value;
+
+  // Only slice the original text when no flags were pulled out in between
+  const contiguous = tokens.every(
+    (token, i) =>
+      i === 0 || !/\S/.test(input.slice(tokens[i - 1].end, token.start))
+  );
+  return contiguous
+    ? input.slice(tokens[0].start, tokens[tokens.length - 1].end)
+    : tokens.map((token) => token.value).join(" ");
+}
+
+function extractFlags(
+  tokens: Token[],
+  flagDefs: FlagDefinition[],
+  flags: ParsedArgs["flags"]
+): Token[] {
+  const positional: Token[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const text = token.quoted ? "" : token.value;
+    const def = text.startsWith("--")
+      ? flagDefs.find((f) => f.name === text.slice(2).toLowerCase())
+      : text.startsWith("-") && text.length > 1
+      ? flagDefs.find((f) => f.alias === text.slice(1).toLowerCase())
+      : undefined;
+
+    if (!def) {
+      positional.push(token);
+      continue;
+    }
+
+    if (def.type === "boolean") {
+      flags[def.name] = true;
+      continue;
+    }
+
+    const value = tokens[++i]?.value;
+    if (value === undefined) {
+      throw new ArgumentError("flagValueMissing", { name: def.name });
+    }
+    if (def.type === "number") {
+      const num = Number(value);
+      if (isNaN(num)) {
+        throw new ArgumentError("flagNumber", { name: def.name });
+      }
+      flags[def.name] = num;
+    } else {
+      flags[def.name] = value;
+    }
+  }
+
+  return positional;
+}
+
+function convertValue(
+  def: ArgDefinition,
+  raw: string,
+  msg?: proto.IWebMessageInfo
+): ArgValue {
+  switch (def.type) {
+    case "number": {
+      const num = Number(raw);
+      if (isNaN(num)) {
+        throw new ArgumentError("argNumber", { name: def.name });
+      }
+      if (def.min !== undefined && num < def.min) {
+        throw new ArgumentError("argMin", { name: def.name, min: def.min });
+      }
+      if (def.max !== undefined && num > def.max) {
+        throw new ArgumentError("argMax", { name: def.name, max: def.max });
+      }
+      return num;
+    }
+    case "enum": {
+      const value = raw.toLowerCase();
+      if (!def.choices?.includes(value)) {
+        throw new ArgumentError("argChoices", {
+          name: def.name,
+          choices: (def.choices ?? []).join(", "),
+        });
+      }
+      return value;
+    }
+    case "url": {
+      try {
+        const url = new URL(raw);
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          throw new Error("Unsupported protocol");
+        }
+        return url.toString();
+      } catch {
+        throw new ArgumentError("argUrl", { name: def.name });
+      }
+    }
+    case "jid": {
+      const jid = resolveJid(raw, msg);
+      if (!jid) {
+        throw new ArgumentError("argJid", { name: def.name });
+      }
+      return jid;
+    }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Resolve a mention (@628xx), phone number or full JID to a WhatsApp JID
+ */
+export function resolveJid(
+  raw: string,
+  msg?: proto.IWebMessageInfo
+): string | null {
+  if (/^[^@\s]+@(s\.whatsapp\.net|g\.us|lid)$/.test(raw)) return raw;
+
+  const digits = raw.replace(/^@/, "").replace(/[\s+-]/g, "");
+  if (!/^\d{5,}$/.test(digits)) return null;
+
+  const mentioned =
+    msg?.message?.extendedTextMessage?.contextInfo?.mentionedJid;
+  const match = mentioned?.find((jid) => jid.startsWith(`${digits}@`));
+  return match ?? `${digits}${JID_SUFFIX}`;
+}
+
+function formatArg(def: ArgDefinition): string {
+  const label =
+    def.type === "enum" && def.choices
+      ? def.choices.join("|")
+      : `${def.name}${def.rest ? "..." : ""}`;
+  return def.required === false ? `[${label}]` : `<${label}>`;
+}
+
+function formatFlags(flags: FlagDefinition[]): string[] {
+  return flags.map((flag) =>
+    flag.type === "boolean"
+      ? `[--${flag.name}]`
+      : `[--${flag.name} <${flag.type}>]`
+  );
+}
+
+/**
+ * Build usage lines for a command from its argument schema. Headings are in
+ * Indonesian unless a translator is given.
+ */
+export function formatUsage(
+  info: CommandInfo,
+  prefix: string,
+  t?: Translator
+): string {
+  const label = (key: MessageKey) => (t ? t(key) : id[key]);
+  const schema = info.argSchema;
+  const base = `${prefix}${info.name}`;
+  if (!schema) return `• ${base}`;
+
+  const sharedFlags = formatFlags(schema.flags ?? []);
+  const lines: string[] = [];
+
+  if (schema.subcommands && schema.subcommands.length > 0) {
+    for (const sub of schema.subcommands) {
+      const parts = [
+        base,
+        sub.name,
+        ...(sub.args ?? []).map(formatArg),
+        ...formatFlags(sub.flags ?? []),
+        ...sharedFlags,
+      ];
+      lines.push(
+        `• ${parts.join(" ")}${sub.description ? ` — ${sub.description}` : ""}`
+      );
+    }
+  } else {
+    const parts = [base, ...(schema.args ?? []).map(formatArg), ...sharedFlags];
+    lines.push(`• ${parts.join(" ")}`);
+  }
+
+  let text = lines.join("\n");
+
+  const described = [
+    ...(schema.args ?? []),
+    ...(schema.subcommands ?? []).flatMap((sub) => sub.args ?? []),
+  ].filter((def) => def.description);
+  if (described.length > 0) {
+    const seen = new Set<string>();
+    text += `\n\n*${label("arguments")}:*\n`;
+    text += described
+      .filter((def) => !seen.has(def.name) && seen.add(def.name))
+      .map((def) => `• ${def.name} — ${def.description}`)
+      .join("\n");
+  }
+
+  if (schema.examples && schema.examples.length > 0) {
+    text += `\n\n*${label("example")}:*\n${schema.examples
+      .map((example) => `• ${prefix}${example}`)
+      .join("\n")}`;
+  }
+
+  return text;
+}
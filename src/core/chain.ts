@@ -0,0 +1,82 @@
+import { proto } from "baileys";
+import { tokenize } from "./tokenizer.js";
+import { ChatTransport, withSendMessage } from "./transport.js";
+
+export interface ChainStep {
+  text: string; // Command text without prefix, e.g. "lyrics judul"
+  piped: boolean; // Receives the text output of the previous step
+}
+
+const SEQUENCE = "&&";
+const PIPE = "|";
+
+/**
+ * Split command text into chained steps on standalone, unquoted "&&" and "|"
+ * tokens. "a && b" runs b after a; "a | b" also hands a's text output to b.
+ *
+ * @returns The steps, or null when a step is empty (e.g. "a && && b")
+ */
+export function parseChain(text: string): ChainStep[] | null {
+  const steps: ChainStep[] = [];
+  let start = 0;
+  let piped = false;
+
+  for (const token of tokenize(text)) {
+    if (token.quoted || (token.value !== SEQUENCE && token.value !== PIPE)) {
+      continue;
+    }
+
+    const stepText = text.slice(start, token.start).trim();
+    if (!stepText) return null;
+    steps.push({ text: stepText, piped });
+
+    start = token.end;
+    piped = token.value === PIPE;
+  }
+
+  const last = text.slice(start).trim();
+  if (!last) return null;
+  steps.push({ text: last, piped });
+
+  return steps;
+}
+
+/**
+ * Wrap a socket so plain text messages are collected into `sink` instead of
+ * being sent. Everything else (media, reactions, ...) still goes out.
+ */
+export function captureTextMessages(
+  sock: ChatTransport,
+  sink: string[]
+): ChatTransport {
+  return withSendMessage(sock, async (jid, content, options) => {
+    if ("text" in content && typeof content.text === "string") {
+      sink.push(content.text);
+      return undefined;
+    }
+    return sock.sendMessage(jid, content, options);
+  });
+}
+
+/**
+ * Copy of a message that appears to quote `text`, so commands that read
+ * replied-to messages pick up piped input as well
+ */
+export function withQuotedText(
+  msg: proto.IWebMessageInfo,
+  text: string
+): proto.IWebMessageInfo {
+  const message = msg.message;
+  return {
+    ...msg,
+    message: {
+      extendedTextMessage: {
+        text: message?.conversation ?? message?.extendedTextMessage?.text ?? "",
+        contextInfo: {
+          ...message?.extendedTextMessage?.contextInfo,
+          quotedMessage: { conversation: text },
+        },
+      },
+    },
+  };
+}
@@ -2,10 +2,62 @@ import { config } from "dotenv";
 config(); // Load environment variables from .env file
 import { Logger } from "../utils/logger.js";
 import { BotConfigService } from "../services/BotConfigService.js";
+import { GroupSettingService } from "../services/GroupSettingService.js";
+import { UserPreferenceService } from "../services/UserPreferenceService.js";
+import { BanService } from "../services/BanService.js";
 import { getMongoClient } from "./mongo.js";
+import { Language } from "./i18n.js";
+import { MenuStyle } from "./MenuManager.js";
+import { id } from "../locales/id.js";
 
 // Define all possible roles here
-export type UserRole = "admin" | "moderator" | "vip";
+// Bot-wide roles, stored in the bot configuration
+export type GlobalRole = "admin" | "moderator" | "vip";
+// Roles resolved from the chat a command is sent in (see core/roles.ts)
+export type GroupRole = "groupAdmin" | "groupOwner";
+export type UserRole = GlobalRole | GroupRole;
+
+export const USER_ROLES: UserRole[] = [
+  "admin",
+  "moderator",
+  "vip",
+  "groupAdmin",
+  "groupOwner",
+];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+export interface CommandBudget {
+  maxUses: number; // Uses allowed for the whole group within the window
+  windowMs: number;
+}
+
+export interface CooldownPolicy {
+  exemptRoles: UserRole[]; // Never hit cooldowns or group budgets
+  maxUsesMultiplier: Partial<Record<UserRole, number>>; // Highest matching role wins
+  cooldownMultiplier: { group: number; private: number }; // Scales CommandInfo.cooldown
+  groupBudgets: Record<string, CommandBudget>; // Command name or alias -> budget per group
+}
+
+export interface TokenBucketConfig {
+  capacity: number; // Burst size
+  refillPerMinute: number;
+}
+
+export interface FloodProtectionConfig {
+  enabled: boolean;
+  user: TokenBucketConfig; // Per user, across all chats
+  chat: TokenBucketConfig; // Per group chat, across all members
+  muteDurations: number[]; // Mute length for the 1st, 2nd, ... offence (ms)
+  strikeResetMs: number; // Offences are forgiven after this long without one
+}
+
+export interface JobQueueConfig {
+  concurrency: Record<string, number>; // Jobs of each type running at once
+  maxJobsPerUser: number; // Queued and running jobs per user
+}
 
 // Default configuration - sensitive data remains in environment variables
 export const BotConfig = {
@@ -21,6 +73,9 @@ export const BotConfig = {
   sessionName: "meowbot", // Nama session untuk penyimpanan (hindari spasi dan karakter khusus)
   allowFromMe: false, // Izinkan bot untuk handle command dari dirinya sendiri
   disableWarning: false, // Nonaktifkan peringatan ke pengguna saat penggunaan command
+  language: "id" as Language, // Bahasa bawaan; bisa diganti per grup dan per user
+  menuStyle: "poll" as MenuStyle, // Tampilan menu: poll (polling beserta teksnya) atau text
+  editReplies: false, // Edit balasan sebelumnya saat pesan perintah diedit, bukan kirim balasan baru
 
   // Pengaturan Game
   defaultGameHelp: "Ketikan {prefix}games untuk melihat daftar game.",
@@ -43,15 +98,16 @@ export const BotConfig = {
   tavilyApiKey: process.env.TAVILY_API_KEY || "", // Kunci API untuk Tavily AI
 
   // Pesan respons
+  // Teks bawaan dari katalog src/locales; versi yang diubah hanya dipakai
+  // untuk bahasa bawaan bot
   messages: {
-    sessionTimeout: "Game telah berakhir karena tidak ada aktivitas.",
-    gameInProgress:
-      "Kamu sedang dalam game {game}. Akhiri dulu dengan {prefix}stop.",
-    gameNotFound:
-      "Game tidak ditemukan. Ketik {prefix}games untuk melihat daftar game.",
-    gameStopped: "Game {game} telah dihentikan.",
-    noGameRunning: "Tidak ada game yang sedang berjalan.",
-    commandError: "Terjadi error saat memproses perintah. Silahkan coba lagi.",
+    sessionTimeout: id.sessionTimeout,
+    gameInProgress: id.gameInProgress,
+    gameNotFound: id.gameNotFound,
+    gameStopped: id.gameStopped,
+    noGameRunning: id.noGameRunning,
+    commandError: id.commandError,
+    commandSuggestion: id.commandSuggestion,
   },
 
   // Admins: List of WhatsApp JIDs allowed to use admin commands
@@ -59,6 +115,34 @@ export const BotConfig = {
   moderators: [] as string[],
   vips: [] as string[],
   maintenanceMode: false,
+
+  // Pengaturan Cooldown
+  cooldownPolicy: {
+    exemptRoles: ["admin"],
+    maxUsesMultiplier: { vip: 2 }, // VIP boleh memakai perintah 2x lebih sering
+    cooldownMultiplier: { group: 1.5, private: 1 }, // Cooldown lebih ketat di grup
+    groupBudgets: {
+      // Batas total per grup untuk perintah yang berat
+      downloader: { maxUses: 30, windowMs: 3600000 },
+      ytdl: { maxUses: 30, windowMs: 3600000 },
+      imagine: { maxUses: 20, windowMs: 3600000 },
+    },
+  } as CooldownPolicy,
+
+  // Pengaturan Anti-Spam
+  floodProtection: {
+    enabled: true,
+    user: { capacity: 6, refillPerMinute: 10 }, // Maks 6 perintah beruntun per user
+    chat: { capacity: 20, refillPerMinute: 40 }, // Maks 20 perintah beruntun per grup
+    muteDurations: [60000, 300000, 1800000, 7200000], // 1 menit, 5 menit, 30 menit, 2 jam
+    strikeResetMs: 86400000, // Pelanggaran dilupakan setelah 24 jam
+  } as FloodProtectionConfig,
+
+  // Antrian proses berat (download dan generate gambar)
+  jobQueue: {
+    concurrency: { download: 2, ytdl: 1, imagine: 2 },
+    maxJobsPerUser: 2,
+  } as JobQueueConfig,
 };
 
 // Singleton instance for dynamic configuration
@@ -75,6 +159,45 @@ export async function getBotConfigService(): Promise<BotConfigService> {
   return configService;
 }
 
+let groupSettingService: GroupSettingService | null = null;
+
+/**
+ * Get the GroupSettingService instance (singleton, shares one settings cache)
+ */
+export async function getGroupSettingService(): Promise<GroupSettingService> {
+  if (!groupSettingService) {
+    const mongoClient = await getMongoClient();
+    groupSettingService = new GroupSettingService(mongoClient);
+  }
+  return groupSettingService;
+}
+
+let userPreferenceService: UserPreferenceService | null = null;
+
+/**
+ * Get the UserPreferenceService instance (singleton, shares one cache)
+ */
+export async function getUserPreferenceService(): Promise<UserPreferenceService> {
+  if (!userPreferenceService) {
+    const mongoClient = await getMongoClient();
+    userPreferenceService = new UserPreferenceService(mongoClient);
+  }
+  return userPreferenceService;
+}
+
+let banService: BanService | null = null;
+
+/**
+ * Get the BanService instance (singleton, shares one ban cache)
+ */
+export async function getBanService(): Promise<BanService> {
+  if (!banService) {
+    const mongoClient = await getMongoClient();
+    banService = new BanService(mongoClient);
+  }
+  return banService;
+}
+
 /**
  * Get current bot configuration (merged from database + environment)
  */
@@ -0,0 +1,105 @@
+import { CommandInfo } from "./CommandInterface.js";
+import { MessageKey } from "./i18n.js";
+
+export type CommandCategory = CommandInfo["category"];
+
+// Commands per help page
+export const HELP_PAGE_SIZE = 10;
+
+// Order of the sections in the command list
+export const CATEGORY_ORDER: CommandCategory[] = [
+  "game",
+  "general",
+  "utility",
+  "admin",
+];
+
+export const CATEGORY_LABELS: Record<CommandCategory, MessageKey> = {
+  game: "categoryGame",
+  general: "categoryGeneral",
+  admin: "categoryAdmin",
+  utility: "categoryUtility",
+};
+
+// Names accepted by "!help <category>", in both languages
+const CATEGORY_ALIASES: Record<string, CommandCategory> = {
+  game: "game",
+  games: "game",
+  permainan: "game",
+  general: "general",
+  umum: "general",
+  admin: "admin",
+  utility: "utility",
+  utilities: "utility",
+  utilitas: "utility",
+  util: "utility",
+};
+
+export function parseCategory(input: string): CommandCategory | undefined {
+  return Object.hasOwn(CATEGORY_ALIASES, input)
+    ? CATEGORY_ALIASES[input]
+    : undefined;
+}
+
+/**
+ * Sort commands by category order, then by name
+ */
+export function sortCommands(commands: CommandInfo[]): CommandInfo[] {
+  return [...commands].sort(
+    (a, b) =>
+      CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Commands whose name, alias or description contains the query. Name and
+ * alias matches come before description matches.
+ */
+export function searchCommands(
+  commands: CommandInfo[],
+  query: string
+): CommandInfo[] {
+  const needle = query.toLowerCase();
+  const byName = (info: CommandInfo) =>
+    [info.name, ...(info.aliases ?? [])].some((name) =>
+      name.toLowerCase().includes(needle)
+    );
+
+  const sorted = sortCommands(commands);
+  return [
+    ...sorted.filter(byName),
+    ...sorted.filter(
+      (info) => !byName(info) && info.description.toLowerCase().includes(needle)
+    ),
+  ];
+}
+
+/**
+ * Slice one page out of a list. Out of range pages are clamped.
+ */
+export function paginate<T>(
+  items: T[],
+  page: number,
+  pageSize: number = HELP_PAGE_SIZE
+): { items: T[]; page: number; pages: number } {
+  const pages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, Math.floor(page) || 1), pages);
+  const start = (current - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    page: current,
+    pages,
+  };
+}
+
+/**
+ * First usage example of a command, with the prefix added
+ */
+export function firstExample(
+  info: CommandInfo,
+  prefix: string
+): string | undefined {
+  const example = info.argSchema?.examples?.[0];
+  return example ? `${prefix}${example}` : undefined;
+}
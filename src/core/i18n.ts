@@ -0,0 +1,50 @@
+import { id } from "../locales/id.js";
+import { en } from "../locales/en.js";
+import type { BotConfig } from "./config.js";
+
+export type Language = "id" | "en";
+export type MessageKey = keyof typeof id;
+export type MessageParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export const LANGUAGES: Record<Language, string> = {
+  id: "Bahasa Indonesia",
+  en: "English",
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { id, en };
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && Object.hasOwn(LANGUAGES, value);
+}
+
+/**
+ * Replace {name} placeholders; unknown placeholders are left as they are
+ */
+export function interpolate(template: string, params: MessageParams = {}) {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.hasOwn(params, name) ? String(params[name]) : match
+  );
+}
+
+/**
+ * Translator for one language. Messages customised through BotConfig.messages
+ * replace the catalog text for the bot's default language only, because they
+ * are written in that language.
+ */
+export function createTranslator(
+  language: Language,
+  config: Pick<typeof BotConfig, "language" | "messages">
+): Translator {
+  const catalog = CATALOGS[language] ?? CATALOGS.id;
+  const overrides: Partial<Record<MessageKey, string>> = config.messages;
+
+  return (key, params) => {
+    const custom = overrides[key];
+    const template =
+      language === config.language && custom && custom !== id[key]
+        ? custom
+        : catalog[key] ?? id[key];
+    return interpolate(template, params);
+  };
+}
@@ -0,0 +1,151 @@
+import { normalizeMessageContent, proto } from "baileys";
+
+export type MediaType = "image" | "video" | "audio" | "document" | "sticker";
+
+const MEDIA_TYPES: MediaType[] = [
+  "image",
+  "video",
+  "audio",
+  "document",
+  "sticker",
+];
+
+export interface MessageMedia {
+  type: MediaType;
+  mimetype?: string;
+  caption?: string;
+  message: proto.IMessage; // Just the media part, e.g. for downloadMediaMessage
+}
+
+export interface QuotedMessage {
+  id?: string;
+  sender?: string;
+  text: string; // Text or caption of the quoted message, "" when it has none
+  content: proto.IMessage; // Unwrapped like the message itself
+}
+
+export interface NormalizedMessage {
+  text: string; // Typed text or media caption, "" when there is none
+  media?: MessageMedia;
+  quoted?: QuotedMessage;
+  mentions: string[];
+  isEdit: boolean; // The text replaces that of an earlier message
+  editedId?: string; // ID of the edited message, set when isEdit
+  content: proto.IMessage; // Message content with every wrapper removed
+}
+
+/**
+ * Unwrap ephemeral, view once and edit containers and collect what the
+ * command handler needs from a message, wherever WhatsApp put it
+ */
+export function normalizeMessage(
+  msg: proto.IWebMessageInfo
+): NormalizedMessage {
+  let content = normalizeMessageContent(msg.message) ?? {};
+  let isEdit = false;
+  let editedId: string | undefined;
+
+  // Edits arrive as a protocol message carrying the new content
+  const protocol = content.protocolMessage;
+  if (
+    protocol?.type === proto.Message.ProtocolMessage.Type.MESSAGE_EDIT &&
+    protocol.editedMessage
+  ) {
+    content = normalizeMessageContent(protocol.editedMessage) ?? {};
+    isEdit = true;
+    editedId = protocol.key?.id ?? undefined;
+  }
+
+  const context = contextInfoOf(content);
+  const quotedContent = normalizeMessageContent(context?.quotedMessage);
+
+  return {
+    text: textOf(content),
+    media: mediaOf(content),
+    quoted: quotedContent
+      ? {
+          id: context?.stanzaId ?? undefined,
+          sender: context?.participant ?? undefined,
+          text: textOf(quotedContent),
+          content: quotedContent,
+        }
+      : undefined,
+    mentions: context?.mentionedJid ?? [],
+    isEdit,
+    editedId,
+    content,
+  };
+}
+
+/**
+ * Copy of a message in the shape commands read: unwrapped content, with
+ * the text and reply context of captions also found in extendedTextMessage
+ */
+export function toCommandMessage(
+  msg: proto.IWebMessageInfo,
+  normalized: NormalizedMessage
+): proto.IWebMessageInfo {
+  const { content } = normalized;
+  if (content.conversation || content.extendedTextMessage) {
+    return { ...msg, message: content };
+  }
+
+  return {
+    ...msg,
+    message: normalized.text
+      ? {
+          ...content,
+          extendedTextMessage: {
+            text: normalized.text,
+            contextInfo: contextInfoOf(content),
+          },
+        }
+      : content,
+  };
+}
+
+function textOf(content: proto.IMessage): string {
+  return (
+    content.conversation ||
+    content.extendedTextMessage?.text ||
+    content.imageMessage?.caption ||
+    content.videoMessage?.caption ||
+    content.documentMessage?.caption ||
+    ""
+  );
+}
+
+function mediaOf(content: proto.IMessage): MessageMedia | undefined {
+  for (const type of MEDIA_TYPES) {
+    const key = `${type}Message` as const;
+    const media = content[key];
+    if (!media) continue;
+
+    return {
+      type,
+      mimetype: media.mimetype ?? undefined,
+      caption:
+        ("caption" in media && typeof media.caption === "string"
+          ? media.caption
+          : undefined) || undefined,
+      message: { [key]: media },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Reply and mention context; every message type carries its own copy
+ */
+function contextInfoOf(
+  content: proto.IMessage
+): proto.IContextInfo | undefined {
+  for (const part of Object.values(content)) {
+    const context: unknown =
+      part && typeof part === "object"
+        ? Reflect.get(part, "contextInfo")
+        : undefined;
+    if (context) return context as proto.IContextInfo;
+  }
+  return undefined;
+}
@@ -0,0 +1,369 @@
+import { proto } from "baileys";
+import { CommandInfo, CommandOutput } from "./CommandInterface.js";
+import { ChatTransport } from "./transport.js";
+import { BotConfig, CommandBudget, CooldownPolicy, log } from "./config.js";
+import { getContextualRoles } from "./roles.js";
+import { CooldownManager } from "./CooldownManager.js";
+import { CommandUsageService } from "../services/CommandUsageService.js";
+import { GroupSetting } from "../services/GroupSettingService.js";
+import { Language, Translator } from "./i18n.js";
+import {
+  ArgumentError,
+  ParsedArgs,
+  formatUsage,
+  parseArgs,
+} from "./arguments.js";
+
+/**
+ * Shared state passed through every middleware for a single command call
+ */
+export interface CommandContext {
+  command: string; // Resolved command name (lowercase), or the built-in name
+  info?: CommandInfo; // Undefined for built-ins and unknown commands
+  args: string[]; // Whitespace-split arguments
+  raw: string; // Unmodified text after the command name
+  tokens: string[]; // Quote-aware arguments
+  jid: string;
+  user: string;
+  sock: ChatTransport;
+  msg: proto.IWebMessageInfo;
+  config: typeof BotConfig; // Prefix already reflects the group's own prefix
+  groupSetting: GroupSetting | null; // Null outside groups or when unset
+  language: Language; // Resolved from the user's, group's or bot's setting
+  t: Translator; // Catalog messages in `language`
+  source: "chat" | "ai";
+  input?: string; // Text piped in from the previous command of a chain
+  parsed?: ParsedArgs; // Filled in by the argument middleware
+  output?: CommandOutput; // Structured result returned by the command
+  rejection?: MiddlewareRejection;
+  state: Record<string, unknown>; // Scratch space for middlewares to share data
+}
+
+export interface MiddlewareRejection {
+  message: string; // User-facing reason, sent to chat or returned to the AI
+}
+
+export interface CommandMiddleware {
+  name: string;
+  /**
+   * Runs before the command. Return a rejection to stop the chain.
+   */
+  before?(ctx: CommandContext): Promise<MiddlewareRejection | void>;
+  /**
+   * Runs after the command (or after a later middleware rejected it), in
+   * reverse registration order. Receives the error thrown by the command, if any.
+   */
+  after?(ctx: CommandContext, error?: unknown): Promise<void>;
+}
+
+/**
+ * Ordered chain of middlewares wrapped around command execution
+ */
+export class MiddlewarePipeline {
+  private middlewares: CommandMiddleware[] = [];
+
+  use(middleware: CommandMiddleware): void {
+    if (this.middlewares.some((m) => m.name === middleware.name)) {
+      throw new Error(`Middleware already registered: ${middleware.name}`);
+    }
+    this.middlewares.push(middleware);
+  }
+
+  remove(name: string): boolean {
+    const index = this.middlewares.findIndex((m) => m.name === name);
+    if (index === -1) return false;
+    this.middlewares.splice(index, 1);
+    return true;
+  }
+
+  list(): string[] {
+    return this.middlewares.map((m) => m.name);
+  }
+
+  /**
+   * Runs the before hooks, the command itself and then the after hooks.
+   *
+   * @returns The rejection that stopped the chain, or null if the command ran
+   */
+  async run(
+    ctx: CommandContext,
+    execute: () => Promise<void>
+  ): Promise<MiddlewareRejection | null> {
+    const entered: CommandMiddleware[] = [];
+    let error: unknown;
+
+    for (const middleware of this.middlewares) {
+      if (middleware.before) {
+        const rejection = await middleware.before(ctx);
+        if (rejection) {
+          ctx.rejection = rejection;
+          break;
+        }
+      }
+      entered.push(middleware);
+    }
+
+    if (!ctx.rejection) {
+      try {
+        await execute();
+      } catch (err) {
+        error = err;
+      }
+    }
+
+    for (const middleware of entered.reverse()) {
+      if (!middleware.after) continue;
+      try {
+        await middleware.after(ctx, error);
+      } catch (afterError) {
+        log.error(
+          `Middleware '${middleware.name}' after hook failed:`,
+          afterError
+        );
+      }
+    }
+
+    if (error) throw error;
+    return ctx.rejection ?? null;
+  }
+}
+
+export const maintenanceMiddleware: CommandMiddleware = {
+  name: "maintenance",
+  async before(ctx) {
+    if (ctx.config.maintenanceMode && !ctx.config.admins.includes(ctx.user)) {
+      return {
+        message: `${ctx.config.emoji.error} ${ctx.t("maintenance")}`,
+      };
+    }
+  },
+};
+
+export const groupPolicyMiddleware: CommandMiddleware = {
+  name: "group-policy",
+  async before(ctx) {
+    const setting = ctx.groupSetting;
+    if (!setting) return;
+
+    if (setting.adminOnly) {
+      const userRoles = await getContextualRoles(ctx.user, ctx.jid, ctx.sock);
+      if (!userRoles.includes("admin") && !userRoles.includes("groupAdmin")) {
+        return {
+          message: `${ctx.config.emoji.error} ${ctx.t("groupAdminOnly")}`,
+        };
+      }
+    }
+
+    // Built-ins stay available so members can still find their way around
+    if (!ctx.info) return;
+
+    // Lists may hold either the command name or one of its aliases
+    const names = [ctx.info.name, ...(ctx.info.aliases ?? [])].map((n) =>
+      n.toLowerCase()
+    );
+    const allowed =
+      !setting.enabledCommands?.length ||
+      names.some((n) => setting.enabledCommands!.includes(n));
+    const denied =
+      names.some((n) => setting.disabledCommands?.includes(n)) ||
+      !!setting.disabledCategories?.includes(ctx.info.category);
+    if (!allowed || denied) {
+      return {
+        message: `${ctx.config.emoji.error} ${ctx.t("commandNotEnabled", {
+          command: ctx.info.name,
+        })}`,
+      };
+    }
+  },
+};
+
+export const disabledMiddleware: CommandMiddleware = {
+  name: "disabled",
+  async before(ctx) {
+    if (!ctx.info?.disabled) return;
+    const reason = ctx.info.disabledReason || ctx.t("noDisabledReason");
+    return {
+      message: `${ctx.config.emoji.error} ${ctx.t("commandDisabled", {
+        command: ctx.info.name,
+        reason,
+      })}`,
+    };
+  },
+};
+
+export const permissionMiddleware: CommandMiddleware = {
+  name: "permission",
+  async before(ctx) {
+    const requiredRoles = ctx.info?.requiredRoles;
+    if (!requiredRoles || requiredRoles.length === 0) return;
+
+    const userRoles = await getContextualRoles(ctx.user, ctx.jid, ctx.sock);
+    if (!requiredRoles.some((role) => userRoles.includes(role))) {
+      return {
+        message: `${ctx.config.emoji.error} ${ctx.t("permissionDenied")}`,
+      };
+    }
+  },
+};
+
+// Commands the AI tool-calling path must never trigger, on top of admin
+// commands and those requiring a role
+const AI_RESTRICTED_COMMANDS = ["alias", "reload"];
+
+function isRestrictedForAI(info: CommandInfo): boolean {
+  return (
+    info.category === "admin" ||
+    (info.requiredRoles?.length ?? 0) > 0 ||
+    AI_RESTRICTED_COMMANDS.includes(info.name.toLowerCase())
+  );
+}
+
+export const aiRestrictionMiddleware: CommandMiddleware = {
+  name: "ai-restriction",
+  async before(ctx) {
+    if (ctx.source !== "ai" || !ctx.info) return;
+    if (isRestrictedForAI(ctx.info)) {
+      return {
+        message: `Command '${ctx.info.name}' cannot be executed by AI for security reasons`,
+      };
+    }
+  },
+};
+
+export const argumentMiddleware: CommandMiddleware = {
+  name: "arguments",
+  async before(ctx) {
+    const schema = ctx.info?.argSchema;
+    if (!schema) return;
+
+    // Commands render their own help for "<command> help"
+    if (ctx.args[0]?.toLowerCase() === "help") return;
+
+    try {
+      ctx.parsed = parseArgs(schema, ctx.raw, ctx.msg);
+    } catch (error) {
+      if (!(error instanceof ArgumentError)) throw error;
+      return {
+        message: `${ctx.config.emoji.error} ${ctx.t(
+          error.key,
+          error.params
+        )}\n\n*${ctx.t("usage")}:*\n${formatUsage(
+          ctx.info!,
+          ctx.config.prefix,
+          ctx.t
+        )}`,
+      };
+    }
+  },
+};
+
+export function createCooldownMiddleware(
+  cooldownManager: CooldownManager
+): CommandMiddleware {
+  return {
+    name: "cooldown",
+    async before(ctx) {
+      if (!ctx.info) return;
+
+      const policy = ctx.config.cooldownPolicy;
+      const isGroup = ctx.jid.endsWith("@g.us");
+      const budget = isGroup
+        ? findGroupBudget(ctx.info, policy.groupBudgets)
+        : undefined;
+      if (!ctx.info.cooldown && !budget) return;
+
+      const roles = await getContextualRoles(ctx.user, ctx.jid, ctx.sock);
+      if (roles.some((role) => policy.exemptRoles.includes(role))) return;
+
+      const cooldownRejection = (retryAfterMs: number) => ({
+        message: `${ctx.config.emoji.error} ${ctx.t("cooldownActive", {
+          seconds: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+        })}`,
+      });
+
+      let cooldown: { windowMs: number; maxUses: number } | undefined;
+      if (ctx.info.cooldown) {
+        const multiplier = Math.max(
+          1,
+          ...roles.map((role) => policy.maxUsesMultiplier[role] ?? 1)
+        );
+        cooldown = {
+          windowMs:
+            ctx.info.cooldown *
+            (isGroup
+              ? policy.cooldownMultiplier.group
+              : policy.cooldownMultiplier.private),
+          maxUses: Math.floor((ctx.info.maxUses || 1) * multiplier),
+        };
+
+        // Only peek for now: a call the group budget refuses must not use up
+        // the user's cooldown
+        const { limited, retryAfterMs } = await cooldownManager.peek(
+          ctx.user,
+          ctx.info.name,
+          cooldown.windowMs,
+          cooldown.maxUses
+        );
+        if (limited) return cooldownRejection(retryAfterMs);
+      }
+
+      if (budget) {
+        // Counted against the group JID, so every member shares it
+        const { limited, retryAfterMs } = await cooldownManager.hit(
+          ctx.jid,
+          ctx.info.name,
+          budget.windowMs,
+          budget.maxUses
+        );
+        if (limited) {
+          const remainingMinutes = Math.max(1, Math.ceil(retryAfterMs / 60000));
+          return {
+            message: `${ctx.config.emoji.error} ${ctx.t(
+              "groupBudgetExhausted",
+              {
+                command: ctx.info.name,
+                minutes: remainingMinutes,
+              }
+            )}`,
+          };
+        }
+      }
+
+      if (cooldown) {
+        // Another call may have taken the last use since the peek
+        const { limited, retryAfterMs } = await cooldownManager.hit(
+          ctx.user,
+          ctx.info.name,
+          cooldown.windowMs,
+          cooldown.maxUses
+        );
+        if (limited) {
+          // The budget was charged for a call that won't run
+          if (budget) await cooldownManager.release(ctx.jid, ctx.info.name);
+          return cooldownRejection(retryAfterMs);
+        }
+      }
+    },
+  };
+}
+
+function findGroupBudget(
+  info: CommandInfo,
+  budgets: CooldownPolicy["groupBudgets"]
+): CommandBudget | undefined {
+  const names = [info.name, ...(info.aliases ?? [])];
+  const key = names.find((name) => Object.hasOwn(budgets, name));
+  return key ? budgets[key] : undefined;
+}
+
+export function createUsageMiddleware(
+  usageService: CommandUsageService
+): CommandMiddleware {
+  return {
+    name: "usage",
+    async after(ctx) {
+      if (!ctx.info || ctx.rejection) return;
+      await usageService.increment(ctx.info.name, ctx.user);
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import { CommandInfo } from "./CommandInterface.js";
+import { isUserRole } from "./config.js";
+
+export interface RegistryIssue {
+  severity: "error" | "warning"; // Errors keep the command or alias out of the registry
+  command: string;
+  file: string;
+  message: string;
+}
+
+export interface CommandRegistry {
+  commands: Map<string, CommandInfo>;
+  aliases: Map<string, string>; // Alias -> command name
+  commandFiles: Map<string, string>; // Command name -> file
+  issues: RegistryIssue[];
+}
+
+const CATEGORIES: CommandInfo["category"][] = [
+  "game",
+  "general",
+  "admin",
+  "utility",
+];
+
+// Cooldowns are in milliseconds; anything shorter was almost certainly
+// written in seconds
+const MIN_COOLDOWN_MS = 1000;
+
+/**
+ * Build the command and alias maps from loaded command modules, in order.
+ * The first command to claim a name or alias keeps it (command names win over
+ * aliases), and every conflict or malformed CommandInfo is reported instead
+ * of silently overwriting.
+ */
+export function buildRegistry(
+  modules: Map<string, CommandInfo>, // File -> CommandInfo
+  builtins: string[]
+): CommandRegistry {
+  const registry: CommandRegistry = {
+    commands: new Map(),
+    aliases: new Map(),
+    commandFiles: new Map(),
+    issues: [],
+  };
+
+  for (const [file, info] of modules) {
+    const report = (severity: RegistryIssue["severity"], message: string) =>
+      registry.issues.push({
+        severity,
+        command: info.name ?? file,
+        file,
+        message,
+      });
+
+    const problems = validateCommandInfo(info);
+    problems.errors.forEach((message) => report("error", message));
+    problems.warnings.forEach((message) => report("warning", message));
+    if (problems.errors.length > 0) continue;
+
+    const name = info.name.toLowerCase();
+    if (builtins.includes(name)) {
+      report("error", `Name '${name}' is reserved for a built-in command`);
+      continue;
+    }
+    if (registry.commands.has(name)) {
+      report(
+        "error",
+        `Name '${name}' is already used by ${registry.commandFiles.get(name)}`
+      );
+      continue;
+    }
+    // A command name wins over an alias claimed earlier by another command
+    const aliasOwner = registry.aliases.get(name);
+    if (aliasOwner) {
+      registry.aliases.delete(name);
+      registry.issues.push({
+        severity: "error",
+        command: aliasOwner,
+        file: registry.commandFiles.get(aliasOwner)!,
+        message: `Alias '${name}' collides with command '${name}'`,
+      });
+    }
+
+    registry.commands.set(name, info);
+    registry.commandFiles.set(name, file);
+
+    for (const alias of (info.aliases ?? []).map((a) => a.toLowerCase())) {
+      if (alias === name) {
+        report("warning", `Alias '${alias}' repeats the command name`);
+        continue;
+      }
+      if (builtins.includes(alias)) {
+        report("error", `Alias '${alias}' shadows a built-in command`);
+        continue;
+      }
+      const target = registry.commands.has(alias)
+        ? alias
+        : registry.aliases.get(alias);
+      if (target) {
+        report(
+          "error",
+          target === name
+            ? `Alias '${alias}' is listed more than once`
+            : `Alias '${alias}' is already used by command '${target}'`
+        );
+        continue;
+      }
+      registry.aliases.set(alias, name);
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Check a single CommandInfo for missing or malformed fields
+ */
+export function validateCommandInfo(info: CommandInfo): {
+  errors: string[];
+  warnings: string[];
+} {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (typeof info.name !== "string" || !/^\S+$/.test(info.name)) {
+    errors.push("Missing or invalid command name");
+  }
+  if (typeof info.commandClass !== "function") {
+    errors.push("Missing command class");
+  }
+  if (!CATEGORIES.includes(info.category)) {
+    errors.push(`Unknown category '${info.category}'`);
+  }
+  if (!info.description?.trim()) {
+    warnings.push("Missing description");
+  }
+
+  if (info.cooldown !== undefined) {
+    if (!Number.isFinite(info.cooldown) || info.cooldown < 0) {
+      errors.push(`Invalid cooldown ${info.cooldown}`);
+    } else if (info.cooldown > 0 && info.cooldown < MIN_COOLDOWN_MS) {
+      warnings.push(
+        `Cooldown of ${info.cooldown}ms is suspiciously short (cooldowns are in milliseconds)`
+      );
+    }
+  }
+  if (
+    info.maxUses !== undefined &&
+    (!Number.isInteger(info.maxUses) || info.maxUses < 1)
+  ) {
+    errors.push(`Invalid maxUses ${info.maxUses}`);
+  }
+
+  for (const role of info.requiredRoles ?? []) {
+    if (!isUserRole(role)) {
+      warnings.push(`Unknown required role '${role}'`);
+    }
+  }
+
+  const argLists = [
+    info.argSchema?.args ?? [],
+    ...(info.argSchema?.subcommands ?? []).map((sub) => sub.args ?? []),
+  ];
+  for (const args of argLists) {
+    if (args.slice(0, -1).some((arg) => arg.rest)) {
+      warnings.push("A rest argument must be the last argument");
+    }
+  }
+
+  return { errors, warnings };
+}
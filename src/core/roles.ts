@@ -0,0 +1,69 @@
+import { GroupMetadata } from "baileys";
+import NodeCache from "node-cache";
+import { UserRole, getUserRoles, log } from "./config.js";
+import { ChatTransport } from "./transport.js";
+
+// Shared with BotClient, which keeps it fresh from group update events
+export const groupMetadataCache = new NodeCache({
+  stdTTL: 5 * 60,
+  useClones: false,
+});
+
+/**
+ * Get group metadata from the cache, fetching it once on a miss
+ */
+export async function getGroupMetadata(
+  jid: string,
+  sock?: ChatTransport
+): Promise<GroupMetadata | undefined> {
+  const cached = groupMetadataCache.get<GroupMetadata>(jid);
+  if (cached || !sock) return cached;
+
+  try {
+    const metadata = await sock.groupMetadata(jid);
+    groupMetadataCache.set(jid, metadata);
+    return metadata;
+  } catch (error) {
+    log.error(`Failed to fetch group metadata for ${jid}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Get the WhatsApp group roles (groupAdmin, groupOwner) of a user in a chat
+ */
+export async function getGroupRoles(
+  userJid: string,
+  chatJid: string,
+  sock?: ChatTransport
+): Promise<UserRole[]> {
+  if (!chatJid.endsWith("@g.us")) return [];
+
+  const metadata = await getGroupMetadata(chatJid, sock);
+  if (!metadata) return [];
+
+  const participant = metadata.participants.find(
+    (p) => p.id === userJid || p.lid === userJid
+  );
+  const roles: UserRole[] = [];
+  if (participant?.admin) roles.push("groupAdmin");
+  if (participant?.admin === "superadmin" || metadata.owner === userJid) {
+    roles.push("groupOwner");
+  }
+  return roles;
+}
+
+/**
+ * Get bot-wide roles plus the user's roles in the chat the command came from
+ */
+export async function getContextualRoles(
+  userJid: string,
+  chatJid: string,
+  sock?: ChatTransport
+): Promise<UserRole[]> {
+  const [globalRoles, groupRoles] = await Promise.all([
+    getUserRoles(userJid),
+    getGroupRoles(userJid, chatJid, sock),
+  ]);
+  return [...globalRoles, ...groupRoles];
+}
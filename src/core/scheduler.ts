@@ -1,15 +1,14 @@
 import cron from "node-cron";
 import { getMongoClient } from "../core/mongo.js";
-import { GroupSettingService } from "../services/GroupSettingService.js";
-import { BotConfig } from "../core/config.js";
-import { WebSocketInfo } from "../core/types.js";
+import { BotConfig, getGroupSettingService } from "../core/config.js";
+import { ChatTransport } from "../core/transport.js";
 import { getAllRegisteredGroupJids } from "../commands/RegisterGroupCommand.js";
 
 // Example: Send a "Good morning!" message to all groups every day at 7am
-export async function scheduleDailyMorningMessage(sock: WebSocketInfo) {
+export async function scheduleDailyMorningMessage(sock: ChatTransport) {
   cron.schedule("0 7 * * *", async () => {
     const client = await getMongoClient();
-    const groupService = new GroupSettingService(client);
+    const groupService = await getGroupSettingService();
     // Fetch all registered group JIDs from the database
     const groupJids = await getAllRegisteredGroupJids(client);
     for (const jid of groupJids) {
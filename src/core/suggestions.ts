@@ -0,0 +1,55 @@
+/**
+ * Edit distance between two strings, counting insertions, deletions,
+ * substitutions and swaps of adjacent characters ("hlep" -> "help") as one
+ * edit each
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Find the candidate closest to an unknown command name, or null when nothing
+ * is close enough to be a plausible typo. Short names allow one edit, longer
+ * names two.
+ */
+export function findClosest(
+  input: string,
+  candidates: Iterable<string>
+): string | null {
+  if (!input) return null;
+
+  const maxDistance = input.length <= 4 ? 1 : 2;
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+
+  for (const candidate of candidates) {
+    // Cheap length check before computing the full distance
+    if (Math.abs(candidate.length - input.length) >= bestDistance) continue;
+
+    const distance = editDistance(input, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
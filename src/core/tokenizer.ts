@@ -0,0 +1,114 @@
+export interface Token {
+  value: string; // Unquoted, unescaped text
+  start: number; // Offset of the first character (including any opening quote)
+  end: number; // Offset just past the last character (including any closing quote)
+  quoted: boolean;
+}
+
+// Opening quote -> closing quote. Includes the "smart" quotes that phone
+// keyboards insert automatically.
+const QUOTE_PAIRS: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  "“": "”",
+  "‘": "’",
+};
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+};
+
+/**
+ * Split command input into tokens, keeping quoted strings (including
+ * newlines) together and resolving backslash escapes.
+ *
+ * Quotes only group text when they open a token, so apostrophes inside words
+ * ("don't") are kept literally. An unterminated quote is treated as a literal
+ * character.
+ */
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const closing = QUOTE_PAIRS[input[i]];
+
+    if (closing) {
+      const quoted = readQuoted(input, i + 1, closing);
+      if (quoted) {
+        tokens.push({
+          value: quoted.value,
+          start,
+          end: quoted.end,
+          quoted: true,
+        });
+        i = quoted.end;
+        continue;
+      }
+    }
+
+    let value = "";
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === "\\" && i + 1 < input.length) {
+        const next = input[i + 1];
+        if (next in QUOTE_PAIRS || next === "\\" || /\s/.test(next)) {
+          value += next;
+          i += 2;
+          continue;
+        }
+      }
+      value += input[i];
+      i++;
+    }
+    tokens.push({ value, start, end: i, quoted: false });
+  }
+
+  return tokens;
+}
+
+function readQuoted(
+  input: string,
+  from: number,
+  closing: string
+): { value: string; end: number } | null {
+  let value = "";
+  let i = from;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (char === "\\" && i + 1 < input.length) {
+      const next = input[i + 1];
+      value += ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+    if (char === closing) {
+      return { value, end: i + 1 };
+    }
+    value += char;
+    i++;
+  }
+
+  return null;
+}
+
+/**
+ * Join plain argument strings back into input that tokenizes to the same
+ * values, quoting any that contain whitespace or quotes.
+ */
+export function joinTokens(values: string[]): string {
+  return values
+    .map((value) =>
+      value === "" || /[\s"'“”‘’\\]/.test(value)
+        ? `"${value.replace(/["\\]/g, "\\$&")}"`
+        : value
+    )
+    .join(" ");
+}
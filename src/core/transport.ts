@@ -0,0 +1,69 @@
+import {
+  AnyMessageContent,
+  GroupMetadata,
+  MiscMessageGenerationOptions,
+  WAPresence,
+  proto,
+} from "baileys";
+
+/**
+ * What CommandHandler and commands need from a chat connection. Message
+ * content uses Baileys' shapes (text, image, video, audio, react, poll, ...),
+ * so a transport only has to deliver it, not understand WhatsApp.
+ *
+ * BaileysTransport talks to WhatsApp; MemoryTransport records everything for
+ * tests and local development.
+ */
+export interface ChatTransport {
+  // Account the bot is logged in as, when connected
+  readonly user?: { id: string; lid?: string };
+
+  /**
+   * Send text, media, a reaction or any other Baileys message content
+   *
+   * @returns The sent message, so it can be quoted, edited or tracked
+   */
+  sendMessage(
+    jid: string,
+    content: AnyMessageContent,
+    options?: MiscMessageGenerationOptions
+  ): Promise<proto.WebMessageInfo | undefined>;
+
+  // "composing" while a command runs, "available" when it is done
+  sendPresenceUpdate(type: WAPresence, jid?: string): Promise<void>;
+
+  // Mark messages as read
+  readMessages(keys: proto.IMessageKey[]): Promise<void>;
+
+  groupMetadata(jid: string): Promise<GroupMetadata>;
+}
+
+// Wrapper -> the transport it wraps
+const wrapped = new WeakMap<ChatTransport, ChatTransport>();
+
+/**
+ * Copy of a transport that sends through `sendMessage`, e.g. to capture or
+ * track a command's replies. Everything else goes to `sock`.
+ */
+export function withSendMessage(
+  sock: ChatTransport,
+  sendMessage: ChatTransport["sendMessage"]
+): ChatTransport {
+  const wrapper = new Proxy(sock, {
+    get: (target, prop) =>
+      prop === "sendMessage" ? sendMessage : Reflect.get(target, prop),
+  });
+  wrapped.set(wrapper, sock);
+  return wrapper;
+}
+
+/**
+ * The connection under any withSendMessage wrappers. Messages sent after a
+ * command has finished, like a poll result, must not go through the
+ * wrappers of that command.
+ */
+export function rootTransport(sock: ChatTransport): ChatTransport {
+  let root = sock;
+  while (wrapped.has(root)) root = wrapped.get(root)!;
+  return root;
+}
@@ -0,0 +1,101 @@
+import { id } from "./id.js";
+
+export const en: Record<keyof typeof id, string> = {
+  sessionTimeout: "The game ended because of inactivity.",
+  gameInProgress: "You are playing {game}. End it first with {prefix}stop.",
+  gameNotFound: "Game not found. Type {prefix}games to see the list of games.",
+  gameStopped: "Game {game} has been stopped.",
+  noGameRunning: "There is no game running.",
+  commandError:
+    "Something went wrong while processing the command. Please try again.",
+  commandSuggestion:
+    "Unknown command. Did you mean *{command}*?\nReply *yes* within 1 minute to run it.",
+
+  maintenance: "The bot is under _maintenance_. Please try again later.",
+  groupAdminOnly: "Only admins can use the bot in this group.",
+  commandNotEnabled: "Command *{command}* is not enabled in this group.",
+  commandDisabled: "Command *{command}* has been disabled. Reason: {reason}",
+  noDisabledReason: "No reason given.",
+  permissionDenied: "You are not allowed to use this command.",
+  cooldownActive:
+    "You are using this command too fast. Try again in {seconds} seconds.",
+  groupBudgetExhausted:
+    "This group has used up its *{command}* limit. Try again in {minutes} minutes.",
+  usage: "Usage",
+  floodUserMuted:
+    "{user} is sending too many commands. Your commands are ignored for {minutes} minutes.",
+  floodChatMuted:
+    "Too many commands in this group. The bot stops responding for {minutes} minutes.",
+
+  jobLimit:
+    "You still have {limit} jobs in the queue. Wait for them to finish or cancel them with {prefix}cancel.",
+  jobQueued:
+    "You are #{position} in the queue. Type {prefix}cancel {id} to cancel.",
+
+  arguments: "Arguments",
+  argSubcommandMissing: "No subcommand given.",
+  argSubcommandUnknown: "Unknown subcommand '{value}'.",
+  argRequired: "Argument <{name}> is required.",
+  argNumber: "Argument <{name}> must be a number.",
+  argMin: "Argument <{name}> must be at least {min}.",
+  argMax: "Argument <{name}> must be at most {max}.",
+  argChoices: "Argument <{name}> must be one of: {choices}.",
+  argUrl: "Argument <{name}> must be a URL.",
+  argJid: "Argument <{name}> must be a mention or a WhatsApp number.",
+  flagValueMissing: "Flag --{name} needs a value.",
+  flagNumber: "Flag --{name} must be a number.",
+
+  chainIncomplete:
+    "Incomplete command chain. Example: {prefix}lyrics <title> | ai summarize the lyrics",
+  chainTooLong: "At most {max} commands in one message.",
+  aliasTooDeep:
+    "Your aliases refer to each other too deeply. Check them with {prefix}alias list.",
+
+  gamesTitle: "Available games:",
+  gamesFooter:
+    "Use {prefix}<game name> start to play, or {prefix}help <game name> for help.",
+  alias: "Aliases",
+  helpTitle: "{name} Bot Help",
+  helpCore: "Core Commands",
+  helpGames: "Show the available games",
+  helpHelp: "List, filter or search commands, or show help for one",
+  helpStop: "Stop the game in progress",
+  categoryGame: "Games",
+  categoryGeneral: "General",
+  categoryAdmin: "Admin",
+  categoryUtility: "Utilities",
+  helpFooter: "Use {prefix}help [command name] for more details.",
+  helpNotFound:
+    "Command *{command}* not found.\nUse {prefix}help to see the available commands.",
+  helpArguments: "page|category|?search|command",
+  helpPage: "Page {page}/{pages}.",
+  helpNextPage: "Type {command} for the next page.",
+  helpHints:
+    "Categories: {categories} (e.g. {prefix}help game)\nSearch commands: {prefix}help ?<word>",
+  helpSearchTitle: 'Search results for "{query}"',
+  helpNoResults:
+    'No command matches "{query}".\nUse {prefix}help to see the available commands.',
+  helpCategoryEmpty: "There are no commands you can use in this category.",
+  example: "Example",
+  description: "Description",
+  reloadAdminOnly: "Only bot admins can reload commands.",
+  reloadNotFound: "Command *{command}* not found.",
+  reloadDone: "{count} commands reloaded.",
+  reloadFailed: "Failed to load (the old version stays in use):",
+  statsUnavailable: "Statistics are not available.",
+  statsTitle: "Command usage statistics:",
+  statsEmpty: "No command usage statistics yet.",
+  statsCommandTitle: "Usage statistics for *{command}*:",
+  statsCommandEmpty: "No statistics for command *{command}* yet.",
+  statsLastUsed: "last",
+  days: "{count} days",
+  hours: "{count} hours",
+  minutes: "{count} minutes",
+  seconds: "{count} seconds",
+
+  languageCurrent:
+    "Your language: *{language}*.\nOptions: {choices}\nChange it with {prefix}lang <code>.",
+  languageChanged: "Language changed to *{language}*.",
+  languageReset: "Language reset to the group or bot default.",
+  languageSaveFailed: "Failed to save the language.",
+};
@@ -0,0 +1,113 @@
+/**
+ * Indonesian messages. This is the reference bundle: every key must exist
+ * here, and other languages fall back to it for missing keys.
+ */
+export const id = {
+  // Pesan yang juga bisa diubah lewat BotConfig.messages
+  sessionTimeout: "Game telah berakhir karena tidak ada aktivitas.",
+  gameInProgress:
+    "Kamu sedang dalam game {game}. Akhiri dulu dengan {prefix}stop.",
+  gameNotFound:
+    "Game tidak ditemukan. Ketik {prefix}games untuk melihat daftar game.",
+  gameStopped: "Game {game} telah dihentikan.",
+  noGameRunning: "Tidak ada game yang sedang berjalan.",
+  commandError: "Terjadi error saat memproses perintah. Silahkan coba lagi.",
+  commandSuggestion:
+    "Perintah tidak dikenali. Mungkin maksud kamu *{command}*?\nBalas *ya* dalam 1 menit untuk menjalankannya.",
+
+  // Middleware
+  maintenance: "Bot sedang dalam mode _maintenance_. Silakan coba lagi nanti.",
+  groupAdminOnly: "Bot hanya dapat digunakan oleh admin di grup ini.",
+  commandNotEnabled: "Perintah *{command}* tidak diaktifkan di grup ini.",
+  commandDisabled: "Perintah *{command}* telah dinonaktifkan. Alasan: {reason}",
+  noDisabledReason: "Tidak ada alasan yang diberikan.",
+  permissionDenied: "Kamu tidak memiliki izin untuk menggunakan perintah ini.",
+  cooldownActive:
+    "Kamu terlalu cepat menggunakan perintah ini. Coba lagi dalam {seconds} detik.",
+  groupBudgetExhausted:
+    "Batas penggunaan *{command}* di grup ini sudah habis. Coba lagi dalam {minutes} menit.",
+  usage: "Penggunaan",
+  floodUserMuted:
+    "{user} terlalu banyak mengirim perintah. Perintah kamu diabaikan selama {minutes} menit.",
+  floodChatMuted:
+    "Terlalu banyak perintah di grup ini. Bot berhenti merespons selama {minutes} menit.",
+
+  // Antrian proses berat
+  jobLimit:
+    "Kamu masih punya {limit} proses di antrian. Tunggu sampai selesai atau batalkan dengan {prefix}cancel.",
+  jobQueued:
+    "Kamu di antrian #{position}. Ketik {prefix}cancel {id} untuk membatalkan.",
+
+  // Argumen perintah
+  arguments: "Argumen",
+  argSubcommandMissing: "Subperintah tidak diberikan.",
+  argSubcommandUnknown: "Subperintah '{value}' tidak dikenal.",
+  argRequired: "Argumen <{name}> wajib diisi.",
+  argNumber: "Argumen <{name}> harus berupa angka.",
+  argMin: "Argumen <{name}> minimal {min}.",
+  argMax: "Argumen <{name}> maksimal {max}.",
+  argChoices: "Argumen <{name}> harus salah satu dari: {choices}.",
+  argUrl: "Argumen <{name}> harus berupa URL.",
+  argJid: "Argumen <{name}> harus berupa mention atau nomor WhatsApp.",
+  flagValueMissing: "Flag --{name} membutuhkan nilai.",
+  flagNumber: "Flag --{name} harus berupa angka.",
+
+  // Rangkaian perintah dan alias
+  chainIncomplete:
+    "Rangkaian perintah tidak lengkap. Contoh: {prefix}lyrics <judul> | ai ringkas liriknya",
+  chainTooLong: "Maksimal {max} perintah dalam satu pesan.",
+  aliasTooDeep:
+    "Alias kamu saling merujuk terlalu dalam. Periksa dengan {prefix}alias list.",
+
+  // Perintah bawaan
+  gamesTitle: "Daftar Game yang Tersedia:",
+  gamesFooter:
+    "Gunakan {prefix}<nama game> start untuk memulai, atau {prefix}help <nama game> untuk bantuan.",
+  alias: "Alias",
+  helpTitle: "Bantuan {name} Bot",
+  helpCore: "Perintah Inti",
+  helpGames: "Melihat daftar game yang tersedia",
+  helpHelp: "Daftar perintah, per kategori, pencarian, atau bantuan command",
+  helpStop: "Menghentikan game yang sedang berjalan",
+  categoryGame: "Game",
+  categoryGeneral: "Umum",
+  categoryAdmin: "Admin",
+  categoryUtility: "Utilitas",
+  helpFooter:
+    "Gunakan {prefix}help [nama perintah] untuk informasi lebih detail.",
+  helpNotFound:
+    "Perintah *{command}* tidak ditemukan.\nGunakan {prefix}help untuk melihat daftar perintah yang tersedia.",
+  helpArguments: "halaman|kategori|?cari|command",
+  helpPage: "Halaman {page}/{pages}.",
+  helpNextPage: "Ketik {command} untuk halaman berikutnya.",
+  helpHints:
+    "Kategori: {categories} (contoh: {prefix}help game)\nCari perintah: {prefix}help ?<kata>",
+  helpSearchTitle: 'Hasil pencarian "{query}"',
+  helpNoResults:
+    'Tidak ada perintah yang cocok dengan "{query}".\nGunakan {prefix}help untuk melihat daftar perintah.',
+  helpCategoryEmpty:
+    "Tidak ada perintah di kategori ini yang bisa kamu gunakan.",
+  example: "Contoh",
+  description: "Deskripsi",
+  reloadAdminOnly: "Hanya admin bot yang dapat memuat ulang perintah.",
+  reloadNotFound: "Perintah *{command}* tidak ditemukan.",
+  reloadDone: "{count} perintah dimuat ulang.",
+  reloadFailed: "Gagal memuat (versi lama tetap dipakai):",
+  statsUnavailable: "Statistik tidak tersedia.",
+  statsTitle: "Statistik penggunaan perintah:",
+  statsEmpty: "Belum ada statistik penggunaan perintah.",
+  statsCommandTitle: "Statistik penggunaan *{command}*:",
+  statsCommandEmpty: "Belum ada statistik untuk perintah *{command}*.",
+  statsLastUsed: "terakhir",
+  days: "{count} hari",
+  hours: "{count} jam",
+  minutes: "{count} menit",
+  seconds: "{count} detik",
+
+  // Bahasa
+  languageCurrent:
+    "Bahasa kamu: *{language}*.\nPilihan: {choices}\nUbah dengan {prefix}lang <kode>.",
+  languageChanged: "Bahasa diubah ke *{language}*.",
+  languageReset: "Bahasa dikembalikan ke bawaan grup atau bot.",
+  languageSaveFailed: "Gagal menyimpan bahasa.",
+};
@@ -0,0 +1,106 @@
+import { MongoClient, Collection } from "mongodb";
+import NodeCache from "node-cache";
+import { BotConfig } from "../core/config.js";
+
+export interface Ban {
+  user: string; // WhatsApp JID
+  reason?: string;
+  bannedBy: string; // JID of the admin, or "api"
+  bannedAt: Date;
+  expiresAt?: Date; // Permanent when missing; removed by the TTL index
+}
+
+export class BanService {
+  private collection: Collection<Ban>;
+  private indexes: Promise<string[]> | null = null;
+  // Bans are checked on every command, so keep lookups off the database
+  private cache = new NodeCache({ stdTTL: 60, useClones: false });
+
+  constructor(
+    mongoClient: MongoClient,
+    dbName = BotConfig.sessionName,
+    collectionName = "bans"
+  ) {
+    this.collection = mongoClient.db(dbName).collection(collectionName);
+  }
+
+  private ensureIndexes(): Promise<string[]> {
+    this.indexes ??= Promise.all([
+      this.collection.createIndex({ user: 1 }, { unique: true }),
+      this.collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]).catch((error) => {
+      // Try again on the next call instead of failing every later one
+      this.indexes = null;
+      throw error;
+    });
+    return this.indexes;
+  }
+
+  /**
+   * Active ban of a user, or null when the user is not banned
+   */
+  async get(user: string): Promise<Ban | null> {
+    let ban = this.cache.get<Ban | null>(user);
+    if (ban === undefined) {
+      ban = await this.collection.findOne({ user });
+      this.cache.set(user, ban);
+    }
+    // The TTL monitor only runs once a minute, so check expiry here too
+    if (ban?.expiresAt && ban.expiresAt.getTime() <= Date.now()) return null;
+    return ban;
+  }
+
+  async isBanned(user: string): Promise<boolean> {
+    return (await this.get(user)) !== null;
+  }
+
+  /**
+   * Ban a user, replacing any existing ban
+   *
+   * @param durationMs Ban length; permanent when omitted
+   */
+  async ban(
+    user: string,
+    bannedBy: string,
+    reason?: string,
+    durationMs?: number
+  ): Promise<Ban> {
+    await this.ensureIndexes();
+
+    const now = new Date();
+    const ban: Ban = { user, bannedBy, bannedAt: now };
+    if (reason) ban.reason = reason;
+    if (durationMs) ban.expiresAt = new Date(now.getTime() + durationMs);
+
+    await this.collection.replaceOne({ user }, ban, { upsert: true });
+    this.cache.del(user);
+    return ban;
+  }
+
+  /**
+   * @returns Whether the user was banned
+   */
+  async unban(user: string): Promise<boolean> {
+    const result = await this.collection.deleteOne({ user });
+    this.cache.del(user);
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * All active bans, newest first
+   */
+  async list(): Promise<Ban[]> {
+    return this.collection
+      .find(
+        {
+          $or: [
+            { expiresAt: { $exists: false } },
+            { expiresAt: { $gt: new Date() } },
+          ],
+        },
+        { projection: { _id: 0 } }
+      )
+      .sort({ bannedAt: -1 })
+      .toArray();
+  }
+}
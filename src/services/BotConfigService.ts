@@ -1,6 +1,14 @@
 import { MongoClient, Collection } from "mongodb";
-import { BotConfig, UserRole } from "../core/config.js";
+import {
+  BotConfig,
+  CooldownPolicy,
+  FloodProtectionConfig,
+  GlobalRole,
+  JobQueueConfig,
+} from "../core/config.js";
 import { log } from "../core/config.js";
+import { Language } from "../core/i18n.js";
+import { MenuStyle, isMenuStyle } from "../core/MenuManager.js";
 
 export interface StoredBotConfig {
   _id: string;
@@ -15,6 +23,9 @@ export interface StoredBotConfig {
   sessionTimeout?: number;
   allowFromMe?: boolean;
   disableWarning?: boolean; // Disable warning to users when using commands
+  language?: Language; // Default language, overridden per group and user
+  menuStyle?: MenuStyle; // How help, games and search results offer choices
+  editReplies?: boolean; // Edit earlier replies when a command message is edited
 
   // Game Settings
   defaultGameHelp?: string;
@@ -39,6 +50,7 @@ export interface StoredBotConfig {
     gameStopped?: string;
     noGameRunning?: string;
     commandError?: string;
+    commandSuggestion?: string;
   };
 
   // User Roles (non-sensitive data)
@@ -46,6 +58,11 @@ export interface StoredBotConfig {
   moderators?: string[];
   vips?: string[];
 
+  // Cooldown Settings
+  cooldownPolicy?: Partial<CooldownPolicy>;
+  floodProtection?: Partial<FloodProtectionConfig>;
+  jobQueue?: Partial<JobQueueConfig>;
+
   // Metadata
   lastUpdated?: Date;
   updatedBy?: string;
@@ -153,6 +170,12 @@ export class BotConfigService {
       sessionTimeout: storedConfig.sessionTimeout ?? BotConfig.sessionTimeout,
       allowFromMe: storedConfig.allowFromMe ?? BotConfig.allowFromMe,
       disableWarning: storedConfig.disableWarning ?? BotConfig.disableWarning,
+      language: storedConfig.language ?? BotConfig.language,
+      // "list" and "buttons" were dropped; configs that still have them get the default
+      menuStyle: isMenuStyle(storedConfig.menuStyle)
+        ? storedConfig.menuStyle
+        : BotConfig.menuStyle,
+      editReplies: storedConfig.editReplies ?? BotConfig.editReplies,
       defaultGameHelp:
         storedConfig.defaultGameHelp ?? BotConfig.defaultGameHelp,
       unknownCommandResponse:
@@ -170,6 +193,26 @@ export class BotConfigService {
       vips: storedConfig.vips ?? BotConfig.vips,
       maintenanceMode:
         storedConfig.maintenanceMode ?? BotConfig.maintenanceMode,
+      cooldownPolicy: {
+        ...BotConfig.cooldownPolicy,
+        ...storedConfig.cooldownPolicy,
+        cooldownMultiplier: {
+          ...BotConfig.cooldownPolicy.cooldownMultiplier,
+          ...storedConfig.cooldownPolicy?.cooldownMultiplier,
+        },
+      },
+      floodProtection: {
+        ...BotConfig.floodProtection,
+        ...storedConfig.floodProtection,
+      },
+      jobQueue: {
+        ...BotConfig.jobQueue,
+        ...storedConfig.jobQueue,
+        concurrency: {
+          ...BotConfig.jobQueue.concurrency,
+          ...storedConfig.jobQueue?.concurrency,
+        },
+      },
     };
   }
 
@@ -205,7 +248,7 @@ export class BotConfigService {
    */
   async addUserToRole(
     userJid: string,
-    role: UserRole,
+    role: GlobalRole,
     updatedBy?: string
   ): Promise<boolean> {
     try {
@@ -245,7 +288,7 @@ export class BotConfigService {
    */
   async removeUserFromRole(
     userJid: string,
-    role: UserRole,
+    role: GlobalRole,
     updatedBy?: string
   ): Promise<boolean> {
     try {
@@ -309,6 +352,9 @@ export class BotConfigService {
       sessionTimeout: BotConfig.sessionTimeout,
       allowFromMe: BotConfig.allowFromMe,
       disableWarning: BotConfig.disableWarning,
+      language: BotConfig.language,
+      menuStyle: BotConfig.menuStyle,
+      editReplies: BotConfig.editReplies,
       defaultGameHelp: BotConfig.defaultGameHelp,
       unknownCommandResponse: BotConfig.unknownCommandResponse,
       emoji: BotConfig.emoji,
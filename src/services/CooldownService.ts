@@ -0,0 +1,111 @@
+import { MongoClient, Collection } from "mongodb";
+import { BotConfig } from "../core/config.js";
+import { CooldownHit, CooldownStore } from "../core/CooldownManager.js";
+
+export interface CooldownEntry {
+  _id: string; // "user:command"
+  hits: number[]; // Timestamps of allowed calls inside the current window
+  limited?: boolean; // Outcome of the latest hit
+  expiresAt: Date; // Removed by the TTL index once the window has passed
+}
+
+/**
+ * MongoDB-backed cooldown store, shared by every bot instance using the same
+ * database and kept across restarts
+ */
+export class CooldownService implements CooldownStore {
+  private collection: Collection<CooldownEntry>;
+  private indexes: Promise<string> | null = null;
+
+  constructor(
+    mongoClient: MongoClient,
+    dbName = BotConfig.sessionName,
+    collectionName = "cooldowns"
+  ) {
+    this.collection = mongoClient.db(dbName).collection(collectionName);
+  }
+
+  async hit(
+    key: string,
+    windowMs: number,
+    maxUses: number
+  ): Promise<CooldownHit> {
+    this.indexes ??= this.collection
+      .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((error) => {
+        // Try again on the next hit instead of failing every later one
+        this.indexes = null;
+        throw error;
+      });
+    await this.indexes;
+
+    const now = Date.now();
+    // Prune, check and record in a single atomic update so concurrent
+    // instances can't both take the last use
+    const entry = await this.collection.findOneAndUpdate(
+      { _id: key },
+      [
+        {
+          $set: {
+            hits: {
+              $filter: {
+                input: { $ifNull: ["$hits", []] },
+                cond: { $gt: ["$$this", now - windowMs] },
+              },
+            },
+          },
+        },
+        { $set: { limited: { $gte: [{ $size: "$hits" }, maxUses] } } },
+        {
+          $set: {
+            hits: {
+              $cond: ["$limited", "$hits", { $concatArrays: ["$hits", [now]] }],
+            },
+          },
+        },
+        {
+          $set: {
+            expiresAt: {
+              $toDate: { $add: [{ $arrayElemAt: ["$hits", -1] }, windowMs] },
+            },
+          },
+        },
+      ],
+      { upsert: true, returnDocument: "after" }
+    );
+
+    if (!entry?.limited) {
+      return { limited: false, retryAfterMs: 0 };
+    }
+    return {
+      limited: true,
+      retryAfterMs: Math.max(0, entry.hits[0] + windowMs - now),
+    };
+  }
+
+  async peek(
+    key: string,
+    windowMs: number,
+    maxUses: number
+  ): Promise<CooldownHit> {
+    const now = Date.now();
+    const entry = await this.collection.findOne({ _id: key });
+    const hits = (entry?.hits ?? []).filter((hit) => hit > now - windowMs);
+
+    if (hits.length < maxUses) {
+      return { limited: false, retryAfterMs: 0 };
+    }
+    return {
+      limited: true,
+      retryAfterMs: Math.max(0, hits[0] + windowMs - now),
+    };
+  }
+
+  async release(key: string): Promise<void> {
+    await this.collection.updateOne({ _id: key }, { $pop: { hits: 1 } });
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.collection.deleteOne({ _id: key });
+  }
+}
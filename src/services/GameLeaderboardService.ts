@@ -45,4 +45,11 @@ export class GameLeaderboardService {
       .limit(limit)
       .toArray();
   }
+
+  /**
+   * Games that have at least one recorded stat
+   */
+  async getGames(): Promise<string[]> {
+    return this.collection.distinct("game");
+  }
 }
@@ -1,16 +1,24 @@
 import { MongoClient, Collection } from "mongodb";
+import NodeCache from "node-cache";
 import { BotConfig } from "../core/config.js";
+import { Language } from "../core/i18n.js";
 
 export interface GroupSetting {
   group: string; // WhatsApp group JID
   prefix?: string;
-  enabledCommands?: string[];
+  enabledCommands?: string[]; // Allow-list; empty or missing allows everything
+  disabledCommands?: string[]; // Deny-list, checked after the allow-list
+  disabledCategories?: string[]; // CommandInfo categories denied as a whole
   welcomeMessage?: string;
   adminOnly?: boolean;
+  silentUnknownCommands?: boolean; // Don't reply to unknown commands at all
+  language?: Language; // Used for members without their own language
 }
 
 export class GroupSettingService {
   private collection: Collection<GroupSetting>;
+  // Settings are read on every group message, so keep them in memory
+  private cache = new NodeCache({ stdTTL: 5 * 60, useClones: false });
 
   constructor(
     mongoClient: MongoClient,
@@ -21,7 +29,12 @@ export class GroupSettingService {
   }
 
   async get(group: string): Promise<GroupSetting | null> {
-    return this.collection.findOne({ group });
+    const cached = this.cache.get<GroupSetting | null>(group);
+    if (cached !== undefined) return cached;
+
+    const setting = await this.collection.findOne({ group });
+    this.cache.set(group, setting);
+    return setting;
   }
 
   async set(group: string, data: Partial<GroupSetting>): Promise<void> {
@@ -30,5 +43,14 @@ export class GroupSettingService {
       { $set: data },
       { upsert: true }
     );
+    this.cache.del(group);
+  }
+
+  /**
+   * Invalidate cached settings for one group, or for all groups
+   */
+  invalidateCache(group?: string): void {
+    if (group) this.cache.del(group);
+    else this.cache.flushAll();
   }
 }
@@ -1,16 +1,20 @@
 import { MongoClient, Collection } from "mongodb";
+import NodeCache from "node-cache";
 import { BotConfig } from "../core/config.js";
+import { Language } from "../core/i18n.js";
 
 export interface UserPreference {
   user: string; // WhatsApp JID
-  language?: string;
+  language?: Language;
   nickname?: string;
   notifications?: boolean;
-  customAliases?: Record<string, string>;
+  customAliases?: Record<string, string>; // Alias -> command text without prefix
 }
 
 export class UserPreferenceService {
   private collection: Collection<UserPreference>;
+  // Preferences are read on every command to resolve custom aliases
+  private cache = new NodeCache({ stdTTL: 5 * 60, useClones: false });
 
   constructor(
     mongoClient: MongoClient,
@@ -21,10 +25,37 @@ export class UserPreferenceService {
   }
 
   async get(user: string): Promise<UserPreference | null> {
-    return this.collection.findOne({ user });
+    const cached = this.cache.get<UserPreference | null>(user);
+    if (cached !== undefined) return cached;
+
+    const preference = await this.collection.findOne({ user });
+    this.cache.set(user, preference);
+    return preference;
   }
 
   async set(user: string, data: Partial<UserPreference>): Promise<void> {
     await this.collection.updateOne({ user }, { $set: data }, { upsert: true });
+    this.cache.del(user);
+  }
+
+  /**
+   * Add or replace one custom alias. The alias is used as a document key, so
+   * callers must make sure it contains no dots or dollar signs.
+   */
+  async setAlias(user: string, alias: string, command: string): Promise<void> {
+    await this.collection.updateOne(
+      { user },
+      { $set: { [`customAliases.${alias}`]: command } },
+      { upsert: true }
+    );
+    this.cache.del(user);
+  }
+
+  async removeAlias(user: string, alias: string): Promise<void> {
+    await this.collection.updateOne(
+      { user },
+      { $unset: { [`customAliases.${alias}`]: "" } }
+    );
+    this.cache.del(user);
   }
 }
@@ -0,0 +1,374 @@
+/**
+ * Console chat simulator: runs CommandHandler against an in-memory transport
+ * and an in-memory MongoDB, so commands can be tried without WhatsApp.
+ *
+ *   bun src/simulator.ts [--mongo-uri <uri>]
+ *
+ * Lines starting with ":" control the simulator (see :help); everything else
+ * is sent as a chat message from the current user in the current chat.
+ */
+import { config } from "dotenv";
+config();
+
+import { GroupMetadata, proto } from "baileys";
+import chalk from "chalk";
+import { randomBytes } from "crypto";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { createInterface } from "readline";
+import { MemoryTransport, SentMessage } from "./core/MemoryTransport.js";
+
+const BOT_JID = "6280000000000@s.whatsapp.net";
+
+interface SimUser {
+  name: string;
+  jid: string;
+}
+
+const HELP = `
+:user <name>      Switch to (or create) a user
+:users            List users
+:chat <name>      Switch to (or create) a group chat
+:dm               Switch to a private chat with the bot
+:groupadmin       Toggle group admin for the current user in the current group
+:botadmin         Add the current user to the bot admins
+:reply <text>     Send text quoting the last bot message
+:edit <text>      Edit your last message in this chat
+:pick <n>         Vote for option n in the last poll, e.g. a menu
+:help             Show this help
+:quit             Exit
+`.trim();
+
+const args = process.argv.slice(2);
+const uriIndex = args.indexOf("--mongo-uri");
+let mongo: MongoMemoryServer | null = null;
+
+if (uriIndex !== -1 && args[uriIndex + 1]) {
+  process.env.MONGO_URI = args[uriIndex + 1];
+} else {
+  console.log(chalk.gray("Starting in-memory MongoDB..."));
+  mongo = await MongoMemoryServer.create();
+  process.env.MONGO_URI = mongo.getUri();
+}
+
+// Imported after MONGO_URI is set; config and services connect on first use
+const { CommandHandler } = await import("./core/CommandHandler.js");
+const { MessageRouter } = await import("./core/MessageRouter.js");
+const { SessionService } = await import("./services/SessionService.js");
+const { getBotConfigService, getCurrentConfig } = await import(
+  "./core/config.js"
+);
+const { groupMetadataCache } = await import("./core/roles.js");
+const { encryptPollVote } = await import("./core/PollManager.js");
+const { closeMongoClient } = await import("./core/mongo.js");
+
+const transport = new MemoryTransport({ id: BOT_JID });
+const handler = new CommandHandler(new SessionService());
+await handler.waitForInitialization();
+const router = new MessageRouter(handler, transport, BOT_JID.split("@")[0]);
+
+const users = new Map<string, SimUser>();
+const groups = new Map<string, GroupMetadata>();
+let user = addUser("user");
+let chat = user.jid; // Private chat with the bot
+let lastBotMessage: SentMessage | undefined;
+const lastMessageIds = new Map<string, string>(); // "chat:user" -> message ID
+let lastPoll:
+  | { id: string; jid: string; values: string[]; secret: Uint8Array }
+  | undefined;
+
+function addUser(name: string): SimUser {
+  const existing = users.get(name);
+  if (existing) return existing;
+
+  // Stable fake phone number per name
+  const number = `628${String(1000000000 + users.size + 1)}`;
+  const created = { name, jid: `${number}@s.whatsapp.net` };
+  users.set(name, created);
+  return created;
+}
+
+function nameOf(jid: string): string {
+  for (const known of users.values()) {
+    if (known.jid === jid) return known.name;
+  }
+  return jid === BOT_JID ? "bot" : jid.split("@")[0];
+}
+
+/**
+ * Group metadata, created on first use with the current user as a member
+ */
+function getGroup(jid: string): GroupMetadata {
+  const metadata = groups.get(jid) ?? {
+    id: jid,
+    subject: jid.split("@")[0],
+    addressingMode: "pn",
+    owner: user.jid,
+    participants: [],
+  };
+  groups.set(jid, metadata);
+
+  if (!metadata.participants.some((p) => p.id === user.jid)) {
+    metadata.participants.push({ id: user.jid, admin: null });
+  }
+  // The role checks read the cache first, like they do for real groups
+  transport.setGroup(metadata);
+  groupMetadataCache.set(jid, metadata);
+  return metadata;
+}
+
+function render(message: SentMessage): string {
+  const content = message.content;
+  const mentions = (text: string) =>
+    text.replace(/@(\d+)/g, (match, number: string) =>
+      chalk.blue(`@${nameOf(`${number}@s.whatsapp.net`)}`)
+    );
+
+  if ("text" in content && typeof content.text === "string") {
+    const edited =
+      "edit" in content && content.edit ? chalk.gray("[edited] ") : "";
+    return edited + mentions(content.text);
+  }
+  if ("react" in content && content.react) {
+    return chalk.gray(`[reaction ${content.react.text || "removed"}]`);
+  }
+  if ("poll" in content && content.poll) {
+    if (content.poll.messageSecret) {
+      lastPoll = {
+        id: message.id,
+        jid: message.jid,
+        values: content.poll.values,
+        secret: content.poll.messageSecret,
+      };
+    }
+    return [
+      chalk.gray(`[poll] ${content.poll.name}`),
+      ...content.poll.values.map((value, i) => `  ${i + 1}. ${value}`),
+    ].join("\n");
+  }
+  // Media: show the type, size and caption instead of the bytes
+  for (const type of ["image", "video", "audio", "document", "sticker"]) {
+    if (type in content) {
+      const media: unknown = Reflect.get(content, type);
+      const size = Buffer.isBuffer(media)
+        ? ` ${(media.length / 1024).toFixed(0)} KB`
+        : "";
+      const caption =
+        "caption" in content && content.caption
+          ? ` ${mentions(String(content.caption))}`
+          : "";
+      return `${chalk.gray(`[${type}${size}]`)}${caption}`;
+    }
+  }
+
+  return chalk.gray(`[${Object.keys(content)[0] ?? "empty"} message]`);
+}
+
+transport.onMessage((message) => {
+  lastBotMessage = message;
+  const where = message.jid === chat ? "" : chalk.gray(` → ${message.jid}`);
+  console.log(`${chalk.green("bot")}${where}: ${render(message)}`);
+});
+
+// Votes are encrypted with the poll's secret, like WhatsApp clients do
+async function vote(poll: NonNullable<typeof lastPoll>, option: string) {
+  await router.route({
+    key: {
+      remoteJid: poll.jid,
+      participant: poll.jid.endsWith("@g.us") ? user.jid : undefined,
+      fromMe: false,
+      id: randomBytes(8).toString("hex").toUpperCase(),
+    },
+    pushName: user.name,
+    messageTimestamp: Math.floor(Date.now() / 1000),
+    message: {
+      pollUpdateMessage: {
+        pollCreationMessageKey: {
+          remoteJid: poll.jid,
+          id: poll.id,
+          fromMe: true,
+        },
+        vote: encryptPollVote([option], {
+          pollCreatorJid: BOT_JID,
+          pollMsgId: poll.id,
+          pollEncKey: poll.secret,
+          voterJid: user.jid,
+        }),
+        senderTimestampMs: Date.now(),
+      },
+    },
+  });
+}
+
+async function send(text: string, quoted?: SentMessage, edits?: string) {
+  const isGroup = chat.endsWith("@g.us");
+  if (isGroup) getGroup(chat);
+
+  const key: proto.IMessageKey = {
+    remoteJid: chat,
+    participant: isGroup ? user.jid : undefined,
+    fromMe: false,
+    id: randomBytes(8).toString("hex").toUpperCase(),
+  };
+  const content: proto.IMessage = quoted
+    ? {
+        extendedTextMessage: {
+          text,
+          contextInfo: {
+            stanzaId: quoted.id,
+            participant: BOT_JID,
+            quotedMessage:
+              "text" in quoted.content
+                ? { conversation: String(quoted.content.text) }
+                : {},
+          },
+        },
+      }
+    : { conversation: text };
+
+  if (!edits) lastMessageIds.set(`${chat}:${user.jid}`, key.id!);
+  await router.route({
+    key,
+    pushName: user.name,
+    messageTimestamp: Math.floor(Date.now() / 1000),
+    message: edits
+      ? {
+          protocolMessage: {
+            type: proto.Message.ProtocolMessage.Type.MESSAGE_EDIT,
+            key: { ...key, id: edits },
+            editedMessage: content,
+          },
+        }
+      : content,
+  });
+}
+
+async function control(line: string): Promise<boolean> {
+  const [name, ...rest] = line.slice(1).trim().split(/\s+/);
+  const value = rest.join(" ");
+
+  switch (name) {
+    case "user":
+      if (!value) {
+        console.log(chalk.red("Usage: :user <name>"));
+        break;
+      }
+      user = addUser(value);
+      if (!chat.endsWith("@g.us")) chat = user.jid;
+      break;
+    case "users":
+      for (const known of users.values()) {
+        console.log(`${known.name}\t${known.jid}`);
+      }
+      break;
+    case "chat":
+      if (!value) {
+        console.log(chalk.red("Usage: :chat <name>"));
+        break;
+      }
+      chat = `${value.replace(/\W+/g, "-")}@g.us`;
+      getGroup(chat);
+      break;
+    case "dm":
+      chat = user.jid;
+      break;
+    case "groupadmin": {
+      if (!chat.endsWith("@g.us")) {
+        console.log(chalk.red("Not in a group; use :chat <name> first"));
+        break;
+      }
+      const participant = getGroup(chat).participants.find(
+        (p) => p.id === user.jid
+      )!;
+      participant.admin = participant.admin ? null : "admin";
+      console.log(
+        chalk.gray(
+          `${user.name} is ${
+            participant.admin ? "now" : "no longer"
+          } a group admin`
+        )
+      );
+      break;
+    }
+    case "botadmin": {
+      const service = await getBotConfigService();
+      await service.addUserToRole(user.jid, "admin", "simulator");
+      console.log(chalk.gray(`${user.name} is now a bot admin`));
+      break;
+    }
+    case "reply":
+      if (!lastBotMessage) {
+        console.log(chalk.red("The bot has not sent anything yet"));
+        break;
+      }
+      await send(value, lastBotMessage);
+      break;
+    case "edit": {
+      const id = lastMessageIds.get(`${chat}:${user.jid}`);
+      if (!id) {
+        console.log(chalk.red("You have not sent anything in this chat yet"));
+        break;
+      }
+      await send(value, undefined, id);
+      break;
+    }
+    case "pick": {
+      const option = lastPoll?.values[Number(value) - 1];
+      if (!lastPoll || !option) {
+        console.log(chalk.red("No such option in the last poll"));
+        break;
+      }
+      await vote(lastPoll, option);
+      break;
+    }
+    case "help":
+      console.log(HELP);
+      break;
+    case "quit":
+    case "exit":
+      return false;
+    default:
+      console.log(chalk.red(`Unknown control ":${name}", see :help`));
+  }
+  return true;
+}
+
+const { prefix } = await getCurrentConfig();
+console.log(
+  chalk.gray(`Simulator ready. Type ${prefix}help, or :help for controls.`)
+);
+
+const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+let inputClosed = false;
+rl.on("close", () => (inputClosed = true));
+
+function prompt() {
+  if (inputClosed) return;
+  const where = chat.endsWith("@g.us")
+    ? `${user.name}@${nameOf(chat)}`
+    : user.name;
+  rl.setPrompt(chalk.cyan(`${where}> `));
+  rl.prompt();
+}
+
+// Lines are queued while a command runs, so piped input works as well
+prompt();
+for await (const input of rl) {
+  const line = input.trim();
+  try {
+    if (line.startsWith(":")) {
+      if (!(await control(line))) break;
+    } else if (line) {
+      await send(line);
+    }
+  } catch (error) {
+    console.error(chalk.red("Error:"), error);
+  }
+  prompt();
+}
+
+rl.close();
+handler.stopWatching();
+await closeMongoClient().catch(() => {});
+await mongo?.stop();
+process.exit(0);
@@ -1,7 +1,7 @@
 import { tavily } from "@tavily/core";
 import { log, BotConfig } from "../core/config.js";
 import { CommandHandler } from "../core/CommandHandler.js";
-import { WebSocketInfo } from "../core/types.js";
+import { ChatTransport } from "../core/transport.js";
 import { proto } from "baileys";
 import type { Groq } from "groq-sdk";
 
@@ -251,7 +251,7 @@ export async function execute_bot_command(
   context: {
     jid: string;
     user: string;
-    sock: WebSocketInfo;
+    sock: ChatTransport;
     msg: proto.IWebMessageInfo;
   }
 ): Promise<string> {
@@ -8,6 +8,7 @@ interface CompressionOptions {
   maxSizeMB?: number;
   quality?: "low" | "medium" | "high";
   timeout?: number;
+  signal?: AbortSignal; // Kills FFmpeg when aborted
 }
 
 export class VideoCompressor {
@@ -21,6 +22,7 @@ export class VideoCompressor {
       maxSizeMB = 50,
       quality = "medium",
       timeout = this.DEFAULT_TIMEOUT,
+      signal,
     } = options;
 
     const tempId = randomUUID();
@@ -61,7 +63,7 @@ export class VideoCompressor {
         outputPath,
       ];
 
-      await this.executeCommand(args, timeout);
+      await this.executeCommand(args, timeout, signal);
 
       // Check if output file exists and is smaller
       const outputBuffer = await fs.readFile(outputPath);
@@ -83,9 +85,13 @@ export class VideoCompressor {
     }
   }
 
-  private executeCommand(args: string[], timeoutMs: number): Promise<void> {
+  private executeCommand(
+    args: string[],
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
-      const process = spawn(args[0], args.slice(1));
+      const process = spawn(args[0], args.slice(1), { signal });
       let isResolved = false;
 
       const timeout = setTimeout(() => {
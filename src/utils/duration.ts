@@ -0,0 +1,33 @@
+const UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a short duration such as "30m", "12h", "7d" or "2w"
+ *
+ * @returns Milliseconds, or null when the text is not a duration
+ */
+export function parseDuration(text: string): number | null {
+  const match = /^(\d+)([mhdw])$/i.exec(text.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 10);
+  return value > 0 ? value * UNITS[match[2].toLowerCase()] : null;
+}
+
+/**
+ * Format milliseconds in Indonesian, e.g. "2 hari 3 jam"
+ */
+export function formatDuration(ms: number): string {
+  const parts: string[] = [];
+  const days = Math.floor(ms / UNITS.d);
+  const hours = Math.floor((ms % UNITS.d) / UNITS.h);
+  const minutes = Math.ceil((ms % UNITS.h) / UNITS.m);
+
+  if (days) parts.push(`${days} hari`);
+  if (hours) parts.push(`${hours} jam`);
+  if (minutes && !days) parts.push(`${minutes} menit`);
+  return parts.join(" ") || "kurang dari 1 menit";
+}
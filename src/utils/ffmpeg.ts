@@ -13,6 +13,10 @@ interface ConversionOptions {
    * FFmpeg binary path (default: 'ffmpeg')
    */
   ffmpegPath?: string;
+  /**
+   * Kills FFmpeg when aborted, e.g. when the job is cancelled
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -23,7 +27,7 @@ export async function convertMp3ToOgg(
   inputBuffer: Buffer,
   options: ConversionOptions = {}
 ): Promise<Buffer> {
-  const { timeout = 30000, ffmpegPath = "ffmpeg" } = options;
+  const { timeout = 30000, ffmpegPath = "ffmpeg", signal } = options;
 
   // Generate unique temporary file names
   const tempDir = tmpdir();
@@ -47,7 +51,8 @@ export async function convertMp3ToOgg(
         "1",
         outputPath,
       ],
-      timeout
+      timeout,
+      signal
     );
 
     // Read output buffer
@@ -69,11 +74,13 @@ export async function convertMp3ToOgg(
 function executeFFmpeg(
   ffmpegPath: string,
   args: string[],
-  timeout: number
+  timeout: number,
+  signal?: AbortSignal
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const process = spawn(ffmpegPath, args, {
       stdio: ["pipe", "pipe", "pipe"],
+      signal,
     });
 
     let stdout = "";
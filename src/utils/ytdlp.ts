@@ -11,6 +11,7 @@ interface YtDlpOptions {
   format?: string;
   audioOnly?: boolean;
   outputTemplate?: string;
+  signal?: AbortSignal; // Kills yt-dlp when aborted, e.g. on job cancel
 }
 
 interface YtDlpResult {
@@ -29,7 +30,7 @@ export class YtDlpWrapper {
     this.cookiesFile = cookiesFile;
   }
 
-  async getVideoInfo(url: string): Promise<any> {
+  async getVideoInfo(url: string, signal?: AbortSignal): Promise<any> {
     const args = [
       "yt-dlp",
       "--dump-json",
@@ -40,7 +41,11 @@ export class YtDlpWrapper {
     ];
 
     try {
-      const { stdout } = await this.executeCommandWithTimeout(args, 30000); // 30s timeout for info
+      const { stdout } = await this.executeCommandWithTimeout(
+        args,
+        30000, // 30s timeout for info
+        signal
+      );
       return JSON.parse(stdout);
     } catch (error) {
       throw new Error(`Failed to get video info: ${error}`);
@@ -52,7 +57,7 @@ export class YtDlpWrapper {
     options: YtDlpOptions = {}
   ): Promise<YtDlpResult> {
     // Check video info first
-    const videoInfo = await this.getVideoInfo(url);
+    const videoInfo = await this.getVideoInfo(url, options.signal);
 
     // Check duration limit
     if (videoInfo.duration && videoInfo.duration > this.MAX_DURATION) {
@@ -80,7 +85,8 @@ export class YtDlpWrapper {
       // Execute yt-dlp command with timeout
       const { stdout, stderr } = await this.executeCommandWithTimeout(
         args,
-        this.DOWNLOAD_TIMEOUT
+        this.DOWNLOAD_TIMEOUT,
+        options.signal
       );
 
       // Find the downloaded file
@@ -173,11 +179,13 @@ export class YtDlpWrapper {
 
   private executeCommandWithTimeout(
     args: string[],
-    timeoutMs: number
+    timeoutMs: number,
+    signal?: AbortSignal
   ): Promise<{ stdout: string; stderr: string }> {
     return new Promise((resolve, reject) => {
       const process = spawn(args[0], args.slice(1), {
         stdio: ["pipe", "pipe", "pipe"],
+        signal,
       });
 
       let stdout = "";
@@ -299,8 +307,9 @@ export class YtDlpWrapper {
   }
 
   // Convenience method for your specific command
-  async downloadVideo(url: string): Promise<YtDlpResult> {
+  async downloadVideo(url: string, signal?: AbortSignal): Promise<YtDlpResult> {
     return this.downloadToBuffer(url, {
+      signal,
       noMtime: true,
       sortBy: "ext",
       cookiesFile: this.cookiesFile,
@@ -312,9 +321,11 @@ export class YtDlpWrapper {
   // Convenience method for downloading audio only
   async downloadAudio(
     url: string,
-    format: string = "mp3"
+    format: string = "mp3",
+    signal?: AbortSignal
   ): Promise<YtDlpResult> {
     return this.downloadToBuffer(url, {
+      signal,
       noMtime: true,
       sortBy: "ext",
       cookiesFile: this.cookiesFile,
@@ -0,0 +1,199 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ArgSchema,
+  ArgumentError,
+  formatUsage,
+  parseArgs,
+  resolveJid,
+} from "../src/core/arguments.js";
+import { CommandInfo } from "../src/core/CommandInterface.js";
+
+function argumentError(fn: () => unknown): ArgumentError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof ArgumentError) return error;
+    throw error;
+  }
+  throw new Error("Expected an ArgumentError");
+}
+
+const remind: ArgSchema = {
+  args: [
+    { name: "minutes", type: "number", min: 1, max: 60 },
+    { name: "text", type: "string", rest: true },
+  ],
+  flags: [
+    { name: "silent", alias: "s", type: "boolean" },
+    { name: "repeat", alias: "r", type: "number" },
+  ],
+};
+
+const leaderboard: ArgSchema = {
+  subcommands: [
+    {
+      name: "show",
+      aliases: ["lihat"],
+      args: [
+        {
+          name: "game",
+          type: "enum",
+          choices: ["hangman", "rps"],
+          required: false,
+        },
+      ],
+    },
+    { name: "reset", args: [{ name: "user", type: "jid" }] },
+  ],
+};
+
+describe("parseArgs", () => {
+  test("converts positional values", () => {
+    expect(parseArgs(remind, "5 minum obat")).toEqual({
+      values: { minutes: 5, text: "minum obat" },
+      flags: {},
+    });
+  });
+
+  test("keeps the original text of a rest argument", () => {
+    const { values } = parseArgs(remind, `5 baris satu\n  "baris" dua`);
+    expect(values.text).toBe(`baris satu\n  "baris" dua`);
+  });
+
+  test("joins rest tokens when flags were pulled out in between", () => {
+    const { values, flags } = parseArgs(remind, "5 minum --silent obat");
+    expect(values.text).toBe("minum obat");
+    expect(flags).toEqual({ silent: true });
+  });
+
+  test("reads flags by name or alias anywhere in the input", () => {
+    expect(parseArgs(remind, "-r 3 10 makan -S").flags).toEqual({
+      repeat: 3,
+      silent: true,
+    });
+    // Quoted tokens are never flags
+    expect(parseArgs(remind, `5 "--silent"`).values.text).toBe("--silent");
+  });
+
+  test("rejects bad flag values", () => {
+    expect(argumentError(() => parseArgs(remind, "5 x --repeat")).key).toBe(
+      "flagValueMissing"
+    );
+    expect(
+      argumentError(() => parseArgs(remind, "5 x --repeat dua")).params
+    ).toEqual({ name: "repeat" });
+  });
+
+  test("validates numbers", () => {
+    expect(argumentError(() => parseArgs(remind, "lima x")).key).toBe(
+      "argNumber"
+    );
+    expect(argumentError(() => parseArgs(remind, "0 x")).params).toEqual({
+      name: "minutes",
+      min: 1,
+    });
+    expect(argumentError(() => parseArgs(remind, "61 x")).key).toBe("argMax");
+  });
+
+  test("reports missing required arguments", () => {
+    const error = argumentError(() => parseArgs(remind, "5"));
+    expect(error.key).toBe("argRequired");
+    expect(error.params).toEqual({ name: "text" });
+    expect(error.message).toContain("text");
+  });
+
+  test("resolves subcommands by name or alias", () => {
+    expect(parseArgs(leaderboard, "LIHAT Hangman")).toEqual({
+      subcommand: "show",
+      values: { game: "hangman" },
+      flags: {},
+    });
+    expect(parseArgs(leaderboard, "show").values).toEqual({});
+  });
+
+  test("rejects missing or unknown subcommands", () => {
+    expect(argumentError(() => parseArgs(leaderboard, "")).key).toBe(
+      "argSubcommandMissing"
+    );
+    expect(argumentError(() => parseArgs(leaderboard, "hapus")).params).toEqual(
+      { value: "hapus" }
+    );
+    expect(
+      parseArgs({ ...leaderboard, subcommandRequired: false }, "")
+    ).toEqual({ values: {}, flags: {} });
+  });
+
+  test("validates enum choices", () => {
+    const error = argumentError(() => parseArgs(leaderboard, "show catur"));
+    expect(error.key).toBe("argChoices");
+    expect(error.params).toEqual({ name: "game", choices: "hangman, rps" });
+  });
+
+  test("accepts only http(s) urls", () => {
+    const schema: ArgSchema = { args: [{ name: "link", type: "url" }] };
+    expect(parseArgs(schema, "https://example.com").values.link).toBe(
+      "https://example.com/"
+    );
+    expect(argumentError(() => parseArgs(schema, "ftp://x")).key).toBe(
+      "argUrl"
+    );
+    expect(argumentError(() => parseArgs(schema, "bukan-url")).key).toBe(
+      "argUrl"
+    );
+  });
+
+  test("resolves jid arguments", () => {
+    expect(parseArgs(leaderboard, "reset @628123456").values.user).toBe(
+      "628123456@s.whatsapp.net"
+    );
+    expect(argumentError(() => parseArgs(leaderboard, "reset budi")).key).toBe(
+      "argJid"
+    );
+  });
+});
+
+describe("resolveJid", () => {
+  test("accepts full JIDs and phone numbers", () => {
+    expect(resolveJid("120363@g.us")).toBe("120363@g.us");
+    expect(resolveJid("+62 812-3456")).toBe("628123456@s.whatsapp.net");
+    expect(resolveJid("123")).toBeNull();
+  });
+
+  test("prefers the JID of a matching mention", () => {
+    const msg = {
+      key: {},
+      message: {
+        extendedTextMessage: { contextInfo: { mentionedJid: ["12345@lid"] } },
+      },
+    };
+    expect(resolveJid("@12345", msg)).toBe("12345@lid");
+  });
+});
+
+describe("formatUsage", () => {
+  const info = (argSchema?: ArgSchema) =>
+    ({ name: "remind", argSchema } as CommandInfo);
+
+  test("lists arguments and flags", () => {
+    expect(formatUsage(info(remind), "!")).toBe(
+      "• !remind <minutes> <text...> [--silent] [--repeat <number>]"
+    );
+    expect(formatUsage(info(), "!")).toBe("• !remind");
+  });
+
+  test("lists each subcommand and the examples", () => {
+    const usage = formatUsage(
+      info({ ...leaderboard, examples: ["remind show rps"] }),
+      "/"
+    );
+    expect(usage).toBe(
+      [
+        "• /remind show [hangman|rps]",
+        "• /remind reset <user>",
+        "",
+        "*Contoh:*",
+        "• /remind show rps",
+      ].join("\n")
+    );
+  });
+});
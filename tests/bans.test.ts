@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, test } from "bun:test";
+import { ChatHarness } from "./harness/ChatHarness.js";
+import { useTestMongo } from "./harness/mongo.js";
+
+// Bans and bot admins are stored in the database
+const mongo = await useTestMongo();
+
+let chat: ChatHarness;
+
+describe.skipIf(!mongo)("bans", () => {
+  beforeAll(async () => {
+    chat = await ChatHarness.create();
+    await chat.makeBotAdmin("ban-admin");
+  });
+
+  afterAll(() => chat.close());
+
+  test("a banned spammer is ignored and does not get the chat muted", async () => {
+    await chat.run([
+      {
+        user: "ban-admin",
+        chat: "dm",
+        text: `!ban ${chat.mention("ban-spammer")} spam`,
+        expect: [`${chat.mention("ban-spammer")} di-ban`],
+      },
+      // More than the group's flood bucket holds, including a typo that
+      // would otherwise get a suggestion
+      ...Array.from({ length: 25 }, (_, i) => ({
+        user: "ban-spammer",
+        chat: "ban-arena",
+        text: i % 2 ? "!rps start multiplayer" : "!rsp start",
+        expectNoReply: true,
+      })),
+      {
+        user: "ban-member",
+        chat: "ban-arena",
+        text: "!rps start multiplayer",
+        expect: ["Game Rock Paper Scissors Multiplayer dimulai"],
+      },
+    ]);
+  });
+});
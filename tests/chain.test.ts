@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  captureTextMessages,
+  parseChain,
+  withQuotedText,
+} from "../src/core/chain.js";
+import { MemoryTransport } from "../src/core/MemoryTransport.js";
+import { ChatHarness } from "./harness/ChatHarness.js";
+
+let chat: ChatHarness;
+
+beforeAll(async () => {
+  chat = await ChatHarness.create();
+});
+
+afterAll(() => chat.close());
+
+describe("parseChain", () => {
+  test("returns a single step for plain commands", () => {
+    expect(parseChain("ping")).toEqual([{ text: "ping", piped: false }]);
+  });
+
+  test("splits on && and |", () => {
+    expect(parseChain("lyrics judul | translate en && ping")).toEqual([
+      { text: "lyrics judul", piped: false },
+      { text: "translate en", piped: true },
+      { text: "ping", piped: false },
+    ]);
+  });
+
+  test("keeps the original text of each step", () => {
+    expect(parseChain(`say "a  b"\nc && ping`)).toEqual([
+      { text: `say "a  b"\nc`, piped: false },
+      { text: "ping", piped: false },
+    ]);
+  });
+
+  test("ignores quoted or attached operators", () => {
+    expect(parseChain(`say "&&" a|b x&&y`)).toEqual([
+      { text: `say "&&" a|b x&&y`, piped: false },
+    ]);
+  });
+
+  test("rejects empty steps", () => {
+    expect(parseChain("ping && && ping")).toBeNull();
+    expect(parseChain("| ping")).toBeNull();
+    expect(parseChain("ping &&")).toBeNull();
+  });
+});
+
+describe("captureTextMessages", () => {
+  test("collects text and still sends everything else", async () => {
+    const transport = new MemoryTransport();
+    const sink: string[] = [];
+    const sock = captureTextMessages(transport, sink);
+
+    await sock.sendMessage("1@s.whatsapp.net", { text: "halo" });
+    await sock.sendMessage("1@s.whatsapp.net", {
+      react: { text: "👍", key: { id: "x" } },
+    });
+
+    expect(sink).toEqual(["halo"]);
+    expect(transport.sent.map((message) => message.content)).toEqual([
+      { react: { text: "👍", key: { id: "x" } } },
+    ]);
+  });
+});
+
+describe("withQuotedText", () => {
+  test("quotes the piped text and keeps the original message", () => {
+    const msg = withQuotedText(
+      { key: { id: "1" }, message: { conversation: "!translate en" } },
+      "halo dunia"
+    );
+    expect(msg.key).toEqual({ id: "1" });
+    expect(msg.message?.extendedTextMessage?.text).toBe("!translate en");
+    expect(
+      msg.message?.extendedTextMessage?.contextInfo?.quotedMessage
+    ).toEqual({ conversation: "halo dunia" });
+  });
+});
+
+describe("chained commands", () => {
+  test("runs each step in order", async () => {
+    await chat.run([
+      {
+        user: "chain-alice",
+        chat: "chain-arena",
+        text: "!rps start multiplayer && !rps join",
+        expect: [
+          "Game Rock Paper Scissors Multiplayer dimulai",
+          "Tidak bisa menjadi player 2 juga",
+        ],
+      },
+    ]);
+  });
+
+  test("rejects incomplete or overly long chains", async () => {
+    await chat.run([
+      {
+        user: "chain-bob",
+        chat: "dm",
+        text: "!rps start &&",
+        expect: ["Rangkaian perintah tidak lengkap"],
+      },
+      {
+        user: "chain-bob",
+        chat: "dm",
+        text: Array(6).fill("!rps join").join(" && "),
+        expect: ["Maksimal 5 perintah dalam satu pesan."],
+      },
+    ]);
+  });
+});
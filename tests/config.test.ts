@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, test } from "bun:test";
+import { ChatHarness } from "./harness/ChatHarness.js";
+import { useTestMongo } from "./harness/mongo.js";
+
+// Roles and settings are stored in the database
+const mongo = await useTestMongo();
+
+let chat: ChatHarness;
+
+describe.skipIf(!mongo)("config", () => {
+  beforeAll(async () => {
+    chat = await ChatHarness.create();
+    await chat.makeBotAdmin("cfg-admin");
+  });
+
+  afterAll(() => chat.close());
+
+  test("members without the admin role are refused", async () => {
+    await chat.run([
+      {
+        user: "cfg-member",
+        chat: "dm",
+        text: "!config get name",
+        expect: ["Kamu tidak memiliki izin untuk menggunakan perintah ini."],
+      },
+    ]);
+  });
+
+  test("admins read and change settings", async () => {
+    await chat.run([
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "!config set maxsessions 3",
+        expect: ["Konfigurasi 'maxsessions' berhasil diperbarui menjadi: 3"],
+      },
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "!config get maxsessions",
+        expect: ["*maxsessions*: 3"],
+      },
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "!cfg set maxsessions nol",
+        expect: ["Max sessions harus berupa angka positif."],
+      },
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "!config get warna",
+        expect: ["Parameter 'warna' tidak ditemukan."],
+      },
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "!config set maxsessions 5",
+        expect: ["berhasil diperbarui menjadi: 5"],
+      },
+    ]);
+  });
+
+  test("a new prefix takes effect for the next message", async () => {
+    await chat.run([
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "!config set prefix ?",
+        expect: ["Konfigurasi 'prefix' berhasil diperbarui menjadi: ?"],
+      },
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "?config get prefix",
+        expect: ["*prefix*: ?"],
+      },
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "?config set prefix !",
+        expect: ["berhasil diperbarui menjadi: !"],
+      },
+    ]);
+  });
+
+  test("a quoted reply is handled like a plain message", async () => {
+    await chat.run([
+      {
+        user: "cfg-admin",
+        chat: "dm",
+        text: "!config get maxsessions",
+        quoted: "last",
+        expect: ["*maxsessions*: 5"],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,303 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { MongoClient } from "mongodb";
+import { CommandInfo } from "../src/core/CommandInterface.js";
+import { BotConfig, CooldownPolicy } from "../src/core/config.js";
+import {
+  CooldownManager,
+  CooldownStore,
+  MemoryCooldownStore,
+} from "../src/core/CooldownManager.js";
+import { createTranslator } from "../src/core/i18n.js";
+import { MemoryTransport } from "../src/core/MemoryTransport.js";
+import {
+  CommandContext,
+  createCooldownMiddleware,
+} from "../src/core/middleware.js";
+import { getMongoClient } from "../src/core/mongo.js";
+import { CooldownService } from "../src/services/CooldownService.js";
+import { useTestMongo } from "./harness/mongo.js";
+
+const mongo = await useTestMongo();
+
+const start = Date.now();
+const at = (offsetMs: number) => setSystemTime(new Date(start + offsetMs));
+
+afterEach(() => {
+  setSystemTime();
+});
+
+function describeStore(
+  name: string,
+  create: () => Promise<CooldownStore>,
+  skip = false
+) {
+  describe.skipIf(skip)(name, () => {
+    let key = 0;
+    const nextKey = () => `test-${name}-${key++}:cmd`;
+
+    test("allows maxUses calls per window", async () => {
+      const store = await create();
+      const key = nextKey();
+
+      at(0);
+      expect(await store.hit(key, 60000, 2)).toEqual({
+        limited: false,
+        retryAfterMs: 0,
+      });
+      at(1000);
+      expect((await store.hit(key, 60000, 2)).limited).toBe(false);
+      at(2000);
+      expect(await store.hit(key, 60000, 2)).toEqual({
+        limited: true,
+        retryAfterMs: 58000,
+      });
+    });
+
+    test("slides the window instead of resetting it", async () => {
+      const store = await create();
+      const key = nextKey();
+
+      at(0);
+      await store.hit(key, 60000, 2);
+      at(30000);
+      await store.hit(key, 60000, 2);
+      // The first call has left the window, the second has not
+      at(60001);
+      expect((await store.hit(key, 60000, 2)).limited).toBe(false);
+      at(60002);
+      expect(await store.hit(key, 60000, 2)).toEqual({
+        limited: true,
+        retryAfterMs: 29998,
+      });
+    });
+
+    test("does not record refused calls", async () => {
+      const store = await create();
+      const key = nextKey();
+
+      at(0);
+      await store.hit(key, 60000, 1);
+      at(59000);
+      expect((await store.hit(key, 60000, 1)).limited).toBe(true);
+      // Spamming while limited must not push the window further out
+      at(60001);
+      expect((await store.hit(key, 60000, 1)).limited).toBe(false);
+    });
+
+    test("peek gives the verdict without recording the call", async () => {
+      const store = await create();
+      const key = nextKey();
+
+      at(0);
+      expect((await store.peek(key, 60000, 1)).limited).toBe(false);
+      expect((await store.peek(key, 60000, 1)).limited).toBe(false);
+      await store.hit(key, 60000, 1);
+      at(10000);
+      expect(await store.peek(key, 60000, 1)).toEqual({
+        limited: true,
+        retryAfterMs: 50000,
+      });
+    });
+
+    test("release takes back the latest call", async () => {
+      const store = await create();
+      const key = nextKey();
+
+      at(0);
+      await store.hit(key, 60000, 2);
+      at(1000);
+      await store.hit(key, 60000, 2);
+      await store.release(key);
+      expect(await store.peek(key, 60000, 1)).toEqual({
+        limited: true,
+        retryAfterMs: 59000,
+      });
+      expect((await store.hit(key, 60000, 2)).limited).toBe(false);
+    });
+
+    test("reset clears the window", async () => {
+      const store = await create();
+      const key = nextKey();
+
+      at(0);
+      await store.hit(key, 60000, 1);
+      await store.reset(key);
+      expect((await store.hit(key, 60000, 1)).limited).toBe(false);
+    });
+  });
+}
+
+describeStore("MemoryCooldownStore", async () => new MemoryCooldownStore());
+
+describeStore(
+  "CooldownService",
+  async () =>
+    new CooldownService(await getMongoClient(), "bot_test", "cooldowns_test"),
+  !mongo
+);
+
+describe("CooldownService indexes", () => {
+  test("retries index creation after a failure", async () => {
+    let attempts = 0;
+    const collection = {
+      createIndex: async () => {
+        if (attempts++ === 0) throw new Error("not primary");
+        return "expiresAt_1";
+      },
+      findOneAndUpdate: async () => ({ hits: [Date.now()], limited: false }),
+    };
+    const client = {
+      db: () => ({ collection: () => collection }),
+    } as unknown as MongoClient;
+    const service = new CooldownService(client);
+
+    await expect(service.hit("user:cmd", 1000, 1)).rejects.toThrow(
+      "not primary"
+    );
+    expect(await service.hit("user:cmd", 1000, 1)).toEqual({
+      limited: false,
+      retryAfterMs: 0,
+    });
+    await service.hit("user:cmd", 1000, 1);
+    expect(attempts).toBe(2);
+  });
+});
+
+describe("CooldownManager", () => {
+  test("keys cooldowns by user and command", async () => {
+    const manager = new CooldownManager(new MemoryCooldownStore());
+
+    expect((await manager.hit("alice", "ai", 60000)).limited).toBe(false);
+    expect((await manager.hit("alice", "ai", 60000)).limited).toBe(true);
+    expect((await manager.hit("alice", "dl", 60000)).limited).toBe(false);
+    expect((await manager.hit("bob", "ai", 60000)).limited).toBe(false);
+
+    await manager.resetCooldown("alice", "ai");
+    expect((await manager.peek("alice", "ai", 60000)).limited).toBe(false);
+  });
+
+  test("falls back to memory when the store fails", async () => {
+    const failing: CooldownStore = {
+      hit: async () => {
+        throw new Error("offline");
+      },
+      peek: async () => {
+        throw new Error("offline");
+      },
+      release: async () => {
+        throw new Error("offline");
+      },
+      reset: async () => {},
+    };
+    const manager = new CooldownManager(failing);
+
+    expect((await manager.peek("alice", "ai", 60000)).limited).toBe(false);
+    expect((await manager.hit("alice", "ai", 60000)).limited).toBe(false);
+    expect((await manager.hit("alice", "ai", 60000)).limited).toBe(true);
+    await manager.release("alice", "ai");
+    expect((await manager.hit("alice", "ai", 60000)).limited).toBe(false);
+  });
+});
+
+describe("cooldown middleware", () => {
+  const policy: CooldownPolicy = {
+    exemptRoles: ["groupAdmin"],
+    maxUsesMultiplier: {},
+    cooldownMultiplier: { group: 2, private: 1 },
+    groupBudgets: { dl: { maxUses: 2, windowMs: 3600000 } },
+  };
+  const group = "policy-group@g.us";
+  const sock = new MemoryTransport();
+  sock.setGroup({
+    id: group,
+    subject: "Policy",
+    addressingMode: "pn",
+    owner: undefined,
+    participants: [{ id: "policy-admin@s.whatsapp.net", admin: "admin" }],
+  });
+
+  function runner(store: CooldownStore = new MemoryCooldownStore()) {
+    const middleware = createCooldownMiddleware(new CooldownManager(store));
+    const config = { ...BotConfig, cooldownPolicy: policy };
+    return async (user: string, jid: string, info: Partial<CommandInfo>) => {
+      const ctx = {
+        info: { name: "downloader", aliases: ["dl"], ...info },
+        jid,
+        user: `${user}@s.whatsapp.net`,
+        sock,
+        config,
+        t: createTranslator("id", config),
+      } as unknown as CommandContext;
+      const rejection = await middleware.before!(ctx);
+      return rejection?.message ?? null;
+    };
+  }
+
+  test("scales the cooldown window by chat type", async () => {
+    const run = runner();
+
+    at(0);
+    expect(
+      await run("alice", "alice@s.whatsapp.net", { cooldown: 5000 })
+    ).toBeNull();
+    expect(
+      await run("alice", "alice@s.whatsapp.net", { cooldown: 5000 })
+    ).toContain("Coba lagi dalam 5 detik");
+
+    expect(await run("bob", group, { cooldown: 5000 })).toBeNull();
+    at(6000);
+    expect(await run("bob", group, { cooldown: 5000 })).toContain(
+      "Coba lagi dalam 4 detik"
+    );
+  });
+
+  test("shares the group budget between members", async () => {
+    const run = runner();
+
+    expect(await run("alice", group, {})).toBeNull();
+    expect(await run("bob", group, {})).toBeNull();
+    expect(await run("carol", group, {})).toBe(
+      "❌ Batas penggunaan *downloader* di grup ini sudah habis. Coba lagi dalam 60 menit."
+    );
+    // Budgets only apply in groups
+    expect(await run("carol", "carol@s.whatsapp.net", {})).toBeNull();
+  });
+
+  test("a budget refusal does not use up the user's cooldown", async () => {
+    const run = runner();
+
+    expect(await run("alice", group, {})).toBeNull();
+    expect(await run("bob", group, {})).toBeNull();
+    expect(await run("carol", group, { cooldown: 60000 })).toContain(
+      "Batas penggunaan"
+    );
+    expect(
+      await run("carol", "carol@s.whatsapp.net", { cooldown: 60000 })
+    ).toBeNull();
+  });
+
+  test("a cooldown refusal does not use up the group budget", async () => {
+    // As if a concurrent call took the user's last use between the peek and
+    // the hit
+    const store = new MemoryCooldownStore();
+    store.peek = async () => ({ limited: false, retryAfterMs: 0 });
+    const run = runner(store);
+
+    expect(await run("alice", group, { cooldown: 60000 })).toBeNull();
+    expect(await run("alice", group, { cooldown: 60000 })).toContain(
+      "Coba lagi dalam"
+    );
+    expect(await run("bob", group, {})).toBeNull();
+    expect(await run("carol", group, {})).toContain("Batas penggunaan");
+  });
+
+  test("exempt roles skip cooldowns and budgets", async () => {
+    const run = runner();
+
+    for (let i = 0; i < 3; i++) {
+      expect(await run("policy-admin", group, { cooldown: 60000 })).toBeNull();
+    }
+    expect(await run("alice", group, {})).toBeNull();
+    expect(await run("bob", group, {})).toBeNull();
+  });
+});
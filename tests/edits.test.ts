@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { getBotConfigService } from "../src/core/config.js";
+import { ChatHarness, textOf } from "./harness/ChatHarness.js";
+import { useTestMongo } from "./harness/mongo.js";
+
+const mongo = await useTestMongo();
+
+let chat: ChatHarness;
+
+beforeAll(async () => {
+  chat = await ChatHarness.create();
+});
+
+afterAll(() => chat.close());
+
+describe("edited commands", () => {
+  test("fixing a mistyped command runs it", async () => {
+    await chat.run([
+      {
+        user: "edit-typo",
+        chat: "dm",
+        text: "!rsp start ai",
+        id: "EDIT-TYPO",
+        expect: ["Mungkin maksud kamu *!rps*?"],
+      },
+      {
+        user: "edit-typo",
+        chat: "dm",
+        text: "!rps start ai",
+        edits: "EDIT-TYPO",
+        expect: ["Game vs AI dimulai!"],
+      },
+      {
+        // WhatsApp can deliver the same edit twice
+        user: "edit-typo",
+        chat: "dm",
+        text: "!rps start ai",
+        edits: "EDIT-TYPO",
+        expectNoReply: true,
+      },
+    ]);
+  });
+
+  test("only the author's edits count", async () => {
+    await chat.run([
+      {
+        user: "edit-owner",
+        chat: "edit-group",
+        text: "!rps start ai",
+        id: "EDIT-OWNER",
+        expect: ["Game vs AI dimulai!"],
+      },
+      {
+        user: "edit-other",
+        chat: "edit-group",
+        text: "!rps stop",
+        edits: "EDIT-OWNER",
+        expectNoReply: true,
+      },
+    ]);
+  });
+
+  // Changing the config needs the database
+  test.skipIf(!mongo)(
+    "with editReplies on, the earlier reply is edited",
+    async () => {
+      const service = await getBotConfigService();
+      await service.updateConfig({ editReplies: true }, "test");
+      try {
+        const [[original], [edited]] = await chat.run([
+          {
+            user: "edit-reply",
+            chat: "dm",
+            text: "!rsp start ai",
+            id: "EDIT-REPLY",
+            expect: ["Mungkin maksud kamu"],
+          },
+          {
+            user: "edit-reply",
+            chat: "dm",
+            text: "!rps start ai",
+            edits: "EDIT-REPLY",
+            expect: ["Game vs AI dimulai!"],
+          },
+        ]);
+
+        expect(textOf(edited)).toStartWith("Game vs AI dimulai!");
+        expect(edited.content).toMatchObject({
+          edit: { id: original.id },
+        });
+      } finally {
+        await service.updateConfig({ editReplies: false }, "test");
+      }
+    }
+  );
+});
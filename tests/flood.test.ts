@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { FloodProtectionConfig } from "../src/core/config.js";
+import { FloodGuard } from "../src/core/FloodGuard.js";
+
+const config: FloodProtectionConfig = {
+  enabled: true,
+  user: { capacity: 2, refillPerMinute: 6 }, // One token every 10 seconds
+  chat: { capacity: 3, refillPerMinute: 60 },
+  muteDurations: [30000, 120000],
+  strikeResetMs: 600000,
+};
+
+const user = "alice@s.whatsapp.net";
+const dm = user;
+const group = "flood@g.us";
+
+const start = Date.now();
+const at = (offsetMs: number) => setSystemTime(new Date(start + offsetMs));
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("FloodGuard", () => {
+  test("allows a burst up to the bucket capacity", () => {
+    const guard = new FloodGuard();
+
+    at(0);
+    expect(guard.check(user, dm, config)).toEqual({ allowed: true });
+    expect(guard.check(user, dm, config)).toEqual({ allowed: true });
+    expect(guard.check(user, dm, config)).toEqual({
+      allowed: false,
+      muted: { scope: "user", durationMs: 30000 },
+    });
+  });
+
+  test("refills tokens over time", () => {
+    const guard = new FloodGuard();
+
+    at(0);
+    guard.check(user, dm, config);
+    guard.check(user, dm, config);
+    at(10000);
+    expect(guard.check(user, dm, config).allowed).toBe(true);
+    expect(guard.check(user, dm, config).allowed).toBe(false);
+  });
+
+  test("warns once and ignores messages while muted", () => {
+    const guard = new FloodGuard();
+
+    at(0);
+    for (let i = 0; i < 3; i++) guard.check(user, dm, config);
+    at(29999);
+    expect(guard.check(user, dm, config)).toEqual({ allowed: false });
+    // The bucket is full again once the mute is over
+    at(30000);
+    expect(guard.check(user, dm, config).allowed).toBe(true);
+    expect(guard.check(user, dm, config).allowed).toBe(true);
+  });
+
+  test("escalates repeated offences and forgives them later", () => {
+    const guard = new FloodGuard();
+    const flood = () => {
+      for (let i = 0; i < 2; i++) guard.check(user, dm, config);
+      return guard.check(user, dm, config).muted?.durationMs;
+    };
+
+    at(0);
+    expect(flood()).toBe(30000);
+    at(30000);
+    expect(flood()).toBe(120000);
+    // Past the last step the longest mute is used again
+    at(150000);
+    expect(flood()).toBe(120000);
+    at(150000 + 600001);
+    expect(flood()).toBe(30000);
+  });
+
+  test("limits a group chat across all members", () => {
+    const guard = new FloodGuard();
+
+    at(0);
+    expect(guard.check("a@s.whatsapp.net", group, config).allowed).toBe(true);
+    expect(guard.check("b@s.whatsapp.net", group, config).allowed).toBe(true);
+    expect(guard.check("c@s.whatsapp.net", group, config).allowed).toBe(true);
+    expect(guard.check("d@s.whatsapp.net", group, config)).toEqual({
+      allowed: false,
+      muted: { scope: "chat", durationMs: 30000 },
+    });
+    // Everyone is ignored in the muted chat, but can still use the bot
+    // elsewhere
+    expect(guard.check("e@s.whatsapp.net", group, config).allowed).toBe(false);
+    expect(guard.check("e@s.whatsapp.net", "e@s.whatsapp.net", config)).toEqual(
+      { allowed: true }
+    );
+  });
+
+  test("lists and lifts mutes", () => {
+    const guard = new FloodGuard();
+
+    at(0);
+    for (let i = 0; i < 3; i++) guard.check(user, dm, config);
+    expect(guard.getMutes()).toEqual([
+      { key: user, scope: "user", strikes: 1, mutedUntil: start + 30000 },
+    ]);
+
+    expect(guard.unmute(user)).toBe(true);
+    expect(guard.unmute(user)).toBe(false);
+    expect(guard.getMutes()).toEqual([]);
+
+    // Without forgiving, the next offence is the second one
+    for (let i = 0; i < 3; i++) guard.check(user, dm, config);
+    expect(guard.getMutes()[0].strikes).toBe(2);
+    guard.unmute(user, true);
+    for (let i = 0; i < 3; i++) guard.check(user, dm, config);
+    expect(guard.getMutes()[0].strikes).toBe(1);
+  });
+
+  test("does nothing when disabled", () => {
+    const guard = new FloodGuard();
+
+    for (let i = 0; i < 5; i++) {
+      expect(guard.check(user, dm, { ...config, enabled: false })).toEqual({
+        allowed: true,
+      });
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ChatHarness, textOf } from "./harness/ChatHarness.js";
+import { requests } from "./harness/http.js";
+import { useTestMongo } from "./harness/mongo.js";
+import { stubKBBI } from "./harness/services.js";
+
+const mongo = await useTestMongo();
+
+let chat: ChatHarness;
+
+beforeAll(async () => {
+  chat = await ChatHarness.create();
+});
+
+afterAll(() => chat.close());
+
+/**
+ * Start a game in the group and return its ID
+ */
+async function startGame(host: string, group: string): Promise<string> {
+  const [replies] = await chat.run([
+    {
+      user: host,
+      chat: group,
+      text: "!hangman start",
+      expect: [/Game Hangman Multiplayer Dimulai/],
+    },
+  ]);
+  const gameId = textOf(replies[0])?.match(/ID: \*(\w+)\*/)?.[1];
+  expect(gameId).toBeDefined();
+  return gameId!;
+}
+
+describe("hangman", () => {
+  // Finished games are cleared from the session store in the database
+  test.skipIf(!mongo)("players join and guess the word together", async () => {
+    stubKBBI("kucing", "hewan peliharaan");
+    const gameId = await startGame("hm-host", "hm-group");
+    expect(requests.map((r) => r.url)).toContain(
+      "https://kbbi.raf555.dev/api/v1/entry/_random"
+    );
+
+    await chat.run([
+      {
+        user: "hm-friend",
+        chat: "hm-group",
+        text: `!hangman join ${gameId}`,
+        expect: [
+          `${chat.mention("hm-friend")} bergabung ke game Hangman *${gameId}*`,
+          "Kata: ######",
+        ],
+      },
+      {
+        user: "hm-host",
+        chat: "hm-group",
+        text: `!hangman guess ${gameId} k`,
+        expect: ['menebak huruf "k" dengan benar', "Kata: k#####"],
+      },
+      {
+        user: "hm-friend",
+        chat: "hm-group",
+        text: "!hangman z",
+        expect: ['menebak huruf "z" (salah)', "Kesempatan tersisa: 5"],
+      },
+      {
+        user: "hm-friend",
+        chat: "hm-group",
+        text: "!hangman z",
+        expect: ['Huruf "z" sudah ditebak sebelumnya'],
+      },
+      { user: "hm-host", chat: "hm-group", text: `!hm guess ${gameId} u` },
+      { user: "hm-host", chat: "hm-group", text: `!hm guess ${gameId} c` },
+      { user: "hm-friend", chat: "hm-group", text: "!hm i" },
+      { user: "hm-friend", chat: "hm-group", text: "!hm n" },
+      {
+        user: "hm-host",
+        chat: "hm-group",
+        text: `!hm guess ${gameId} g`,
+        expect: [`Game *${gameId}* Selesai! Kata "kucing" berhasil ditebak`],
+      },
+      {
+        user: "hm-host",
+        chat: "hm-group",
+        text: `!hangman status ${gameId}`,
+        expect: [`Tidak ada game Hangman aktif dengan ID *${gameId}*`],
+      },
+    ]);
+  });
+
+  test("only the host can stop a game", async () => {
+    stubKBBI("ikan", "hewan air");
+    const gameId = await startGame("hm-host2", "hm-group2");
+
+    await chat.run([
+      {
+        user: "hm-guest",
+        chat: "hm-group2",
+        text: `!hangman stop ${gameId}`,
+        expect: [`yang dapat menghentikan game *${gameId}*`],
+      },
+      {
+        user: "hm-host2",
+        chat: "hm-group2",
+        text: `!hangman stop ${gameId}`,
+        expect: [`Game Hangman *${gameId}* telah dihentikan`, "ikan"],
+      },
+    ]);
+  });
+
+  test("guessing without a game explains how to start one", async () => {
+    await chat.run([
+      {
+        user: "hm-lonely",
+        chat: "dm",
+        text: "!hangman a",
+        expect: ["Kamu tidak sedang dalam game Hangman"],
+      },
+    ]);
+  });
+});
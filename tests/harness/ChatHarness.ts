@@ -0,0 +1,225 @@
+import { AnyMessageContent, GroupMetadata, proto } from "baileys";
+import { randomBytes } from "crypto";
+import { CommandHandler } from "../../src/core/CommandHandler.js";
+import {
+  MemoryTransport,
+  SentMessage,
+} from "../../src/core/MemoryTransport.js";
+import { MessageRouter } from "../../src/core/MessageRouter.js";
+import { getBotConfigService } from "../../src/core/config.js";
+import { groupMetadataCache } from "../../src/core/roles.js";
+import { SessionService } from "../../src/services/SessionService.js";
+
+export const BOT_JID = "6280000000000@s.whatsapp.net";
+
+// Shared by every harness in the run, so users never collide between files
+let nextNumber = 1;
+
+export interface ScriptStep {
+  user: string; // Created on first use
+  chat: string; // "dm" for the user's private chat with the bot, else a group
+  text: string;
+  quoted?: SentMessage | "last"; // A bot message, "last" for the latest one
+  wrap?: (message: proto.IMessage) => proto.IMessage; // E.g. into a caption
+  id?: string; // Message ID, random when omitted
+  edits?: string; // Send as an edit of the user's message with this ID
+  expect?: (string | RegExp)[]; // Each must match one reply to this step
+  expectNoReply?: boolean;
+}
+
+/**
+ * Drives the bot like WhatsApp would: messages go through MessageRouter,
+ * the path BotClient uses for every incoming message, and everything the
+ * bot sends is recorded by a MemoryTransport.
+ *
+ * Cooldowns are switched off so scripts don't have to wait between steps;
+ * flood protection stays on.
+ */
+export class ChatHarness {
+  readonly transport = new MemoryTransport({ id: BOT_JID });
+  private users = new Map<string, string>(); // Name -> JID
+  private groups = new Map<string, GroupMetadata>(); // JID -> metadata
+  private router: MessageRouter;
+
+  private constructor(readonly handler: CommandHandler) {
+    this.router = new MessageRouter(
+      handler,
+      this.transport,
+      BOT_JID.split("@")[0]
+    );
+  }
+
+  static async create(): Promise<ChatHarness> {
+    const handler = new CommandHandler(new SessionService());
+    await handler.waitForInitialization();
+    handler.setCooldownStore({
+      hit: async () => ({ limited: false, retryAfterMs: 0 }),
+      peek: async () => ({ limited: false, retryAfterMs: 0 }),
+      release: async () => {},
+      reset: async () => {},
+    });
+    return new ChatHarness(handler);
+  }
+
+  /**
+   * JID of a user, with a fake phone number assigned on first use
+   */
+  jid(name: string): string {
+    let jid = this.users.get(name);
+    if (!jid) {
+      jid = `628${String(1000000000 + nextNumber++)}@s.whatsapp.net`;
+      this.users.set(name, jid);
+    }
+    return jid;
+  }
+
+  /**
+   * JID of a chat: the user's private chat for "dm", else a group
+   */
+  chatJid(chat: string, user: string): string {
+    return chat === "dm" ? this.jid(user) : `${chat}@g.us`;
+  }
+
+  /**
+   * Mention text for a user as the bot writes it, e.g. "@628..."
+   */
+  mention(name: string): string {
+    return `@${this.jid(name).split("@")[0]}`;
+  }
+
+  async makeBotAdmin(name: string): Promise<void> {
+    const service = await getBotConfigService();
+    await service.addUserToRole(this.jid(name), "admin", "test");
+  }
+
+  /**
+   * Send one message and return what the bot sent while handling it
+   */
+  async send(step: ScriptStep): Promise<SentMessage[]> {
+    const user = this.jid(step.user);
+    const jid = this.chatJid(step.chat, step.user);
+    const isGroup = jid.endsWith("@g.us");
+    if (isGroup) this.group(jid, user);
+
+    const quoted =
+      step.quoted === "last"
+        ? this.transport.sent[this.transport.sent.length - 1]
+        : step.quoted;
+    const content: proto.IMessage = quoted
+      ? {
+          extendedTextMessage: {
+            text: step.text,
+            contextInfo: {
+              stanzaId: quoted.id,
+              participant: BOT_JID,
+              quotedMessage: { conversation: textOf(quoted) ?? "" },
+            },
+          },
+        }
+      : { conversation: step.text };
+    const message = step.wrap ? step.wrap(content) : content;
+    const msg: proto.IWebMessageInfo = {
+      key: {
+        remoteJid: jid,
+        participant: isGroup ? user : undefined,
+        fromMe: false,
+        id: step.id ?? randomBytes(8).toString("hex").toUpperCase(),
+      },
+      pushName: step.user,
+      messageTimestamp: Math.floor(Date.now() / 1000),
+      message: step.edits
+        ? {
+            protocolMessage: {
+              type: proto.Message.ProtocolMessage.Type.MESSAGE_EDIT,
+              key: {
+                remoteJid: jid,
+                participant: isGroup ? user : undefined,
+                fromMe: false,
+                id: step.edits,
+              },
+              editedMessage: message,
+            },
+          }
+        : message,
+    };
+
+    const before = this.transport.sent.length;
+    await this.router.route(msg);
+    return this.transport.sent.slice(before);
+  }
+
+  /**
+   * Run the steps in order, checking each step's expectations
+   *
+   * @returns The replies to each step
+   */
+  async run(script: ScriptStep[]): Promise<SentMessage[][]> {
+    const replies: SentMessage[][] = [];
+    for (const step of script) {
+      const sent = await this.send(step);
+      const texts = sent.map((message) => textOf(message) ?? "");
+      const label = `${step.user} in ${step.chat}: ${step.text}`;
+
+      if (step.expectNoReply && texts.length > 0) {
+        throw new Error(
+          `${label}\nexpected no reply, got:\n${texts.join("\n---\n")}`
+        );
+      }
+      for (const pattern of step.expect ?? []) {
+        const matched = texts.some((text) =>
+          typeof pattern === "string"
+            ? text.includes(pattern)
+            : pattern.test(text)
+        );
+        if (!matched) {
+          throw new Error(
+            `${label}\nexpected a reply matching ${pattern}, got:\n${
+              texts.join("\n---\n") || "(no reply)"
+            }`
+          );
+        }
+      }
+      replies.push(sent);
+    }
+    return replies;
+  }
+
+  close(): void {
+    this.handler.stopWatching();
+  }
+
+  /**
+   * Group metadata, created on first use; the user is added as a member
+   */
+  private group(jid: string, user: string): GroupMetadata {
+    const metadata = this.groups.get(jid) ?? {
+      id: jid,
+      subject: jid.split("@")[0],
+      addressingMode: "pn",
+      owner: user,
+      participants: [],
+    };
+    this.groups.set(jid, metadata);
+
+    if (!metadata.participants.some((p) => p.id === user)) {
+      metadata.participants.push({ id: user, admin: null });
+    }
+    this.transport.setGroup(metadata);
+    groupMetadataCache.set(jid, metadata);
+    return metadata;
+  }
+}
+
+/**
+ * Text or caption of a sent message, undefined for other content
+ */
+export function textOf(message: SentMessage): string | undefined {
+  const content = message.content as AnyMessageContent;
+  if ("text" in content && typeof content.text === "string") {
+    return content.text;
+  }
+  if ("caption" in content && typeof content.caption === "string") {
+    return content.caption;
+  }
+  return undefined;
+}
@@ -0,0 +1,159 @@
+import axios, {
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+
+export interface StubRequest {
+  method: string; // Upper case
+  url: string; // Absolute URL
+  body: unknown; // Parsed JSON when the body is JSON
+}
+
+export interface StubResponse {
+  status?: number; // Defaults to 200
+  body?: unknown; // Sent as JSON unless it is a string or Buffer
+  headers?: Record<string, string>;
+}
+
+type StubHandler = (
+  request: StubRequest
+) => StubResponse | Promise<StubResponse>;
+
+interface Route {
+  method: string;
+  pattern: string | RegExp; // URL prefix or regular expression
+  handler: StubHandler;
+}
+
+let routes: Route[] = [];
+
+// Every request that reached a stub, oldest first
+export const requests: StubRequest[] = [];
+
+/**
+ * Answer requests whose URL starts with (or matches) `pattern`. Routes
+ * added later win, so a test can override a default stub.
+ */
+export function stubHttp(
+  method: string,
+  pattern: string | RegExp,
+  handler: StubHandler | StubResponse
+): void {
+  routes.unshift({
+    method: method.toUpperCase(),
+    pattern,
+    handler: typeof handler === "function" ? handler : () => handler,
+  });
+}
+
+/**
+ * Forget all routes and recorded requests
+ */
+export function resetHttp(): void {
+  routes = [];
+  requests.length = 0;
+}
+
+async function respond(request: StubRequest) {
+  const route = routes.find(
+    (route) =>
+      (route.method === "*" || route.method === request.method) &&
+      (typeof route.pattern === "string"
+        ? request.url.startsWith(route.pattern)
+        : route.pattern.test(request.url))
+  );
+  // Tests run offline: a request nobody stubbed is a bug in the test
+  if (!route) {
+    throw new Error(
+      `Unexpected HTTP request: ${request.method} ${request.url}`
+    );
+  }
+
+  requests.push(request);
+  const response = await route.handler(request);
+  const { body } = response;
+  const raw =
+    typeof body === "string"
+      ? Buffer.from(body)
+      : Buffer.isBuffer(body)
+      ? body
+      : undefined;
+  return {
+    status: response.status ?? 200,
+    headers: {
+      "content-type": raw ? "application/octet-stream" : "application/json",
+      ...response.headers,
+    },
+    body,
+    raw: raw ?? Buffer.from(JSON.stringify(body ?? null)),
+  };
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== "string") return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+async function axiosAdapter(
+  config: InternalAxiosRequestConfig
+): Promise<AxiosResponse> {
+  const url = new URL(config.url ?? "", config.baseURL).href;
+  const stubbed = await respond({
+    method: (config.method ?? "get").toUpperCase(),
+    url,
+    body: parseBody(config.data),
+  });
+
+  const response: AxiosResponse = {
+    data: config.responseType === "arraybuffer" ? stubbed.raw : stubbed.body,
+    status: stubbed.status,
+    statusText: String(stubbed.status),
+    headers: stubbed.headers,
+    config,
+    request: {},
+  };
+  if (config.validateStatus && !config.validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      AxiosError.ERR_BAD_RESPONSE,
+      config,
+      {},
+      response
+    );
+  }
+  return response;
+}
+
+async function stubFetch(
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  const request = input instanceof Request ? input : undefined;
+  const body = init?.body ?? (request ? await request.text() : undefined);
+  const stubbed = await respond({
+    method: (init?.method ?? request?.method ?? "GET").toUpperCase(),
+    url: request ? request.url : new URL(input.toString()).href,
+    body: parseBody(body),
+  });
+
+  return new Response(stubbed.raw, {
+    status: stubbed.status,
+    headers: stubbed.headers,
+  });
+}
+
+/**
+ * Route axios and fetch through the stubs. Must run before any module
+ * that calls axios.create or captures fetch (groq-sdk) is imported.
+ */
+export function installHttpStubs(): void {
+  axios.defaults.adapter = axiosAdapter;
+  globalThis.fetch = Object.assign(stubFetch, {
+    preconnect: () => {},
+  }) as typeof fetch;
+}
@@ -0,0 +1,31 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+
+let server: MongoMemoryServer | null = null;
+let available: Promise<boolean> | null = null;
+
+/**
+ * Point the bot at a throwaway MongoDB for suites that need one: the
+ * database in TEST_MONGO_URI, else an in-memory server started on first use
+ * and shared by the rest of the run.
+ *
+ * @returns Whether a database is available. mongodb-memory-server downloads
+ * mongod on its first run, so offline suites should skip their tests.
+ */
+export function useTestMongo(): Promise<boolean> {
+  available ??= (async () => {
+    if (process.env.TEST_MONGO_URI) return true;
+    try {
+      server = await MongoMemoryServer.create();
+      process.env.MONGO_URI = server.getUri();
+      return true;
+    } catch (error) {
+      console.warn(`Skipping MongoDB tests, no mongod available: ${error}`);
+      return false;
+    }
+  })();
+  return available;
+}
+
+export async function stopTestMongo(): Promise<void> {
+  await server?.stop();
+}
@@ -0,0 +1,53 @@
+import { stubHttp } from "./http.js";
+
+/**
+ * Canned answers for the external APIs the commands call. Each helper
+ * registers its stub and can be called again by a test to change it.
+ */
+
+export function stubKBBI(lemma: string, definition: string): void {
+  stubHttp("GET", "https://kbbi.raf555.dev/api/v1/entry/_random", {
+    body: { lemma, entries: [{ definitions: [{ definition }] }] },
+  });
+}
+
+export function stubCobalt(services: string[]): void {
+  stubHttp("GET", /^https:\/\/cobalt\.razik\.net\/?$/, {
+    body: { cobalt: { services } },
+  });
+  stubHttp("POST", "https://cobalt.razik.net", {
+    body: {
+      status: "tunnel",
+      url: "https://cobalt.razik.net/tunnel/media",
+      filename: "video.mp4",
+    },
+  });
+}
+
+export function stubGroq(reply: string): void {
+  stubHttp("POST", "https://api.groq.com/openai/v1/chat/completions", {
+    body: {
+      id: "chatcmpl-test",
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: "test",
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: reply },
+          finish_reason: "stop",
+        },
+      ],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    },
+  });
+}
+
+/**
+ * Default stubs installed before every test
+ */
+export function stubServices(): void {
+  stubKBBI("kucing", "hewan berkaki empat yang suka mengeong");
+  stubCobalt(["tiktok", "instagram", "twitter"]);
+  stubGroq("Halo! Ada yang bisa dibantu?");
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { BotConfig } from "../src/core/config.js";
+import {
+  LANGUAGES,
+  createTranslator,
+  interpolate,
+  isLanguage,
+} from "../src/core/i18n.js";
+import { en } from "../src/locales/en.js";
+import { id } from "../src/locales/id.js";
+
+const placeholders = (template: string) =>
+  [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort();
+
+describe("interpolate", () => {
+  test("fills known placeholders and keeps unknown ones", () => {
+    expect(interpolate("{a} + {a} = {b}, {c}", { a: 1, b: "dua" })).toBe(
+      "1 + 1 = dua, {c}"
+    );
+    expect(interpolate("tanpa {param}")).toBe("tanpa {param}");
+  });
+});
+
+describe("isLanguage", () => {
+  test("accepts only supported languages", () => {
+    expect(Object.keys(LANGUAGES).every(isLanguage)).toBe(true);
+    expect(isLanguage("de")).toBe(false);
+    expect(isLanguage("toString")).toBe(false);
+    expect(isLanguage(undefined)).toBe(false);
+  });
+});
+
+describe("createTranslator", () => {
+  test("translates with the language's catalog", () => {
+    const t = createTranslator("en", BotConfig);
+    expect(t("cooldownActive", { seconds: 3 })).toBe(
+      "You are using this command too fast. Try again in 3 seconds."
+    );
+  });
+
+  test("uses customised messages for the default language only", () => {
+    const config = {
+      language: "id" as const,
+      messages: { ...BotConfig.messages, commandError: "Waduh, rusak!" },
+    };
+
+    expect(createTranslator("id", config)("commandError")).toBe(
+      "Waduh, rusak!"
+    );
+    expect(createTranslator("en", config)("commandError")).toBe(
+      en.commandError
+    );
+  });
+
+  test("keeps the catalog text when a message is not customised", () => {
+    const config = { language: "en" as const, messages: BotConfig.messages };
+    // The stored message is still the Indonesian default
+    expect(createTranslator("en", config)("commandError")).toBe(
+      en.commandError
+    );
+  });
+});
+
+describe("catalogs", () => {
+  test("use the same placeholders in every language", () => {
+    for (const key of Object.keys(id) as (keyof typeof id)[]) {
+      expect({ key, params: placeholders(en[key]) }).toEqual({
+        key,
+        params: placeholders(id[key]),
+      });
+    }
+  });
+});
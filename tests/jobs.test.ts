@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { JobQueueConfig } from "../src/core/config.js";
+import {
+  JobCancelledError,
+  JobLimitError,
+  JobOptions,
+  JobQueue,
+} from "../src/core/JobQueue.js";
+
+const config: JobQueueConfig = {
+  concurrency: { ytdl: 1, imagine: 2 },
+  maxJobsPerUser: 2,
+};
+
+const job = (user: string, type = "ytdl"): JobOptions => ({
+  type,
+  user,
+  jid: user,
+  label: `${type} of ${user}`,
+});
+
+// The queue frees a slot after the job's result has settled
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// A task that runs until it is finished from the outside or aborted
+function controllable() {
+  let finish!: (value: string) => void;
+  let started = false;
+  let aborted = false;
+  const task = (signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      started = true;
+      finish = resolve;
+      signal.addEventListener("abort", () => {
+        aborted = true;
+        reject(new Error("aborted"));
+      });
+    });
+  return {
+    task,
+    finish: (value: string) => finish(value),
+    get started() {
+      return started;
+    },
+    get aborted() {
+      return aborted;
+    },
+  };
+}
+
+describe("JobQueue", () => {
+  test("runs jobs of a type one after another", async () => {
+    const queue = new JobQueue();
+    const first = controllable();
+    const second = controllable();
+
+    const a = queue.enqueue(job("alice"), first.task, config);
+    const b = queue.enqueue(job("bob"), second.task, config);
+
+    expect([a.position, b.position]).toEqual([0, 1]);
+    expect(second.started).toBe(false);
+
+    first.finish("done");
+    expect(await a.result).toBe("done");
+    await settle();
+    expect(second.started).toBe(true);
+    expect(queue.getJobs().map((info) => info.state)).toEqual(["running"]);
+  });
+
+  test("applies the concurrency of each type separately", () => {
+    const queue = new JobQueue();
+    const tasks = [controllable(), controllable(), controllable()];
+
+    queue.enqueue(job("alice", "imagine"), tasks[0].task, config);
+    queue.enqueue(job("bob", "imagine"), tasks[1].task, config);
+    const third = queue.enqueue(job("carol", "imagine"), tasks[2].task, config);
+    // Types without a configured concurrency run one at a time
+    const other = queue.enqueue(
+      job("carol", "compress"),
+      async () => 1,
+      config
+    );
+
+    expect(tasks.map((task) => task.started)).toEqual([true, true, false]);
+    expect(third.position).toBe(1);
+    expect(other.position).toBe(0);
+  });
+
+  test("limits the jobs per user", () => {
+    const queue = new JobQueue();
+
+    queue.enqueue(job("alice"), controllable().task, config);
+    queue.enqueue(job("alice"), controllable().task, config);
+
+    expect(() =>
+      queue.enqueue(job("alice"), controllable().task, config)
+    ).toThrow(JobLimitError);
+    expect(queue.getJobs("alice")).toHaveLength(2);
+    expect(queue.getJobs("bob")).toEqual([]);
+  });
+
+  test("drops cancelled queued jobs", async () => {
+    const queue = new JobQueue();
+    const first = controllable();
+    const second = controllable();
+
+    queue.enqueue(job("alice"), first.task, config);
+    const b = queue.enqueue(job("bob"), second.task, config);
+
+    const [cancelled] = queue.cancel("bob", b.id);
+    expect(cancelled).toMatchObject({ id: b.id, state: "queued", position: 1 });
+    await expect(b.result).rejects.toThrow(JobCancelledError);
+
+    first.finish("done");
+    await settle();
+    expect(second.started).toBe(false);
+    expect(queue.getJobs()).toEqual([]);
+  });
+
+  test("aborts cancelled running jobs and starts the next one", async () => {
+    const queue = new JobQueue();
+    const first = controllable();
+    const second = controllable();
+
+    const a = queue.enqueue(job("alice"), first.task, config);
+    queue.enqueue(job("bob"), second.task, config);
+
+    expect(queue.cancel("alice")).toHaveLength(1);
+    await expect(a.result).rejects.toThrow(JobCancelledError);
+    expect(first.aborted).toBe(true);
+
+    // The slot is freed once the aborted task has stopped
+    await settle();
+    expect(second.started).toBe(true);
+  });
+
+  test("only cancels jobs of the given user", () => {
+    const queue = new JobQueue();
+
+    const a = queue.enqueue(job("alice"), controllable().task, config);
+    expect(queue.cancel("bob", a.id)).toEqual([]);
+    expect(queue.getJobs()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { proto } from "baileys";
+import { ChatHarness } from "./harness/ChatHarness.js";
+
+let chat: ChatHarness;
+
+beforeAll(async () => {
+  chat = await ChatHarness.create();
+});
+
+afterAll(() => chat.close());
+
+function textOf(message: proto.IMessage): string {
+  return message.conversation ?? message.extendedTextMessage?.text ?? "";
+}
+
+// The text becomes the caption of an image, keeping any reply context
+function asImageCaption(message: proto.IMessage): proto.IMessage {
+  return {
+    imageMessage: {
+      mimetype: "image/jpeg",
+      caption: textOf(message),
+      contextInfo: message.extendedTextMessage?.contextInfo,
+    },
+  };
+}
+
+function asEphemeral(message: proto.IMessage): proto.IMessage {
+  return { ephemeralMessage: { message } };
+}
+
+function asViewOnce(message: proto.IMessage): proto.IMessage {
+  return { viewOnceMessageV2: { message } };
+}
+
+describe("message normalization", () => {
+  test("commands in media captions run", async () => {
+    await chat.run([
+      {
+        user: "msg-caption",
+        chat: "dm",
+        text: "!rps start ai",
+        wrap: asImageCaption,
+        expect: ["Game vs AI dimulai!"],
+      },
+    ]);
+  });
+
+  test("commands in disappearing and view once messages run", async () => {
+    await chat.run([
+      {
+        user: "msg-ephemeral",
+        chat: "msg-group",
+        text: "!rps start ai",
+        wrap: asEphemeral,
+        expect: ["Game vs AI dimulai!"],
+      },
+      {
+        user: "msg-viewonce",
+        chat: "msg-group",
+        text: "!rps start ai",
+        wrap: (message) => asEphemeral(asViewOnce(asImageCaption(message))),
+        expect: ["Game vs AI dimulai!"],
+      },
+    ]);
+  });
+
+  test("a captioned command reads the message it replies to", async () => {
+    const [replies] = await chat.run([
+      {
+        user: "msg-reply",
+        chat: "dm",
+        text: "!dl",
+        wrap: (message) =>
+          asImageCaption({
+            extendedTextMessage: {
+              text: textOf(message),
+              contextInfo: {
+                stanzaId: "QUOTED",
+                participant: chat.jid("msg-friend"),
+                quotedMessage: {
+                  conversation: "lihat ini https://vt.tiktok.com/ZSrG9QPK7/",
+                },
+              },
+            },
+          }),
+      },
+    ]);
+
+    expect(replies.map((m) => m.content)).toContainEqual({
+      video: { url: "https://cobalt.razik.net/tunnel/media" },
+    });
+  });
+
+  test("edits of messages that were not commands are ignored", async () => {
+    await chat.run([
+      { user: "msg-edit", chat: "dm", text: "halo", id: "MSG-EDIT-1" },
+      {
+        user: "msg-edit",
+        chat: "dm",
+        text: "!rps start ai",
+        edits: "MSG-EDIT-1",
+        expectNoReply: true,
+      },
+    ]);
+  });
+});
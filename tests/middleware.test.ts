@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import { CommandInfo } from "../src/core/CommandInterface.js";
+import {
+  CommandContext,
+  CommandMiddleware,
+  MiddlewarePipeline,
+  aiRestrictionMiddleware,
+} from "../src/core/middleware.js";
+
+function recorder(
+  log: string[],
+  name: string,
+  reject = false
+): CommandMiddleware {
+  return {
+    name,
+    async before() {
+      log.push(`before ${name}`);
+      if (reject) return { message: `${name} says no` };
+    },
+    async after(_ctx, error) {
+      log.push(`after ${name}${error ? ` (${(error as Error).message})` : ""}`);
+    },
+  };
+}
+
+// The pipeline itself only passes the context along
+const ctx = () => ({ state: {} } as CommandContext);
+
+describe("middleware pipeline", () => {
+  test("runs before hooks in order and after hooks in reverse", async () => {
+    const log: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(recorder(log, "a"));
+    pipeline.use(recorder(log, "b"));
+
+    const rejection = await pipeline.run(ctx(), async () => {
+      log.push("command");
+    });
+
+    expect(rejection).toBeNull();
+    expect(log).toEqual([
+      "before a",
+      "before b",
+      "command",
+      "after b",
+      "after a",
+    ]);
+  });
+
+  test("a rejection skips the command and later middlewares", async () => {
+    const log: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(recorder(log, "a"));
+    pipeline.use(recorder(log, "b", true));
+    pipeline.use(recorder(log, "c"));
+
+    const context = ctx();
+    const rejection = await pipeline.run(context, async () => {
+      log.push("command");
+    });
+
+    expect(rejection).toEqual({ message: "b says no" });
+    expect(context.rejection).toBe(rejection!);
+    // Only middlewares that let the command through see the after hook
+    expect(log).toEqual(["before a", "before b", "after a"]);
+  });
+
+  test("after hooks see the command's error, which is rethrown", async () => {
+    const log: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(recorder(log, "a"));
+
+    await expect(
+      pipeline.run(ctx(), async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(log).toEqual(["before a", "after a (boom)"]);
+  });
+
+  test("a failing after hook does not stop the others", async () => {
+    const log: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(recorder(log, "a"));
+    pipeline.use({
+      name: "broken",
+      async after() {
+        throw new Error("after failed");
+      },
+    });
+
+    expect(await pipeline.run(ctx(), async () => {})).toBeNull();
+    expect(log).toEqual(["before a", "after a"]);
+  });
+
+  test("names are unique and middlewares can be removed", () => {
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(recorder([], "a"));
+    pipeline.use(recorder([], "b"));
+
+    expect(() => pipeline.use(recorder([], "a"))).toThrow(
+      "Middleware already registered: a"
+    );
+    expect(pipeline.remove("a")).toBe(true);
+    expect(pipeline.remove("a")).toBe(false);
+    expect(pipeline.list()).toEqual(["b"]);
+  });
+});
+
+describe("ai restriction", () => {
+  const run = (source: "chat" | "ai", info: Partial<CommandInfo>) =>
+    aiRestrictionMiddleware.before!({
+      source,
+      info: { name: "test", ...info },
+    } as CommandContext);
+
+  test("blocks admin, role-restricted and listed commands for the AI", async () => {
+    expect(await run("ai", { name: "group", category: "admin" })).toEqual({
+      message: "Command 'group' cannot be executed by AI for security reasons",
+    });
+    expect(await run("ai", { requiredRoles: ["groupAdmin"] })).toBeDefined();
+    expect(
+      await run("ai", { name: "alias", category: "utility" })
+    ).toBeDefined();
+  });
+
+  test("lets other commands and chat users through", async () => {
+    expect(
+      await run("ai", { name: "ytsearch", category: "general" })
+    ).toBeUndefined();
+    expect(
+      await run("chat", { name: "ban", category: "admin" })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, expect, test } from "bun:test";
+import { proto } from "baileys";
+import { MemoryTransport } from "../src/core/MemoryTransport.js";
+import {
+  MAX_POLL_OPTIONS,
+  PollManager,
+  PollVote,
+  encryptPollVote,
+} from "../src/core/PollManager.js";
+
+const BOT = "628000@s.whatsapp.net";
+const BOT_LID = "99000@lid";
+const GROUP = "polls@g.us";
+
+function setup() {
+  const sock = new MemoryTransport({
+    id: "628000:3@s.whatsapp.net",
+    lid: BOT_LID,
+  });
+  const polls = new PollManager();
+
+  // Build the pollUpdateMessage a WhatsApp client sends for a vote
+  const vote = (
+    pollId: string,
+    voter: string,
+    options: string[],
+    creator = BOT
+  ): proto.IWebMessageInfo => {
+    const poll = sock.sent.find((message) => message.id === pollId)!;
+    const { messageSecret } = (
+      poll.content as { poll: { messageSecret: Uint8Array } }
+    ).poll;
+    return {
+      key: { remoteJid: GROUP, participant: voter, fromMe: false, id: "V" },
+      message: {
+        pollUpdateMessage: {
+          pollCreationMessageKey: {
+            remoteJid: GROUP,
+            id: pollId,
+            fromMe: true,
+          },
+          vote: encryptPollVote(options, {
+            pollCreatorJid: creator,
+            pollMsgId: pollId,
+            pollEncKey: messageSecret,
+            voterJid: voter,
+          }),
+        },
+      },
+    };
+  };
+
+  return { sock, polls, vote };
+}
+
+describe("PollManager", () => {
+  test("sends a native poll", async () => {
+    const { sock, polls } = setup();
+
+    const pollId = await polls.create(sock, {
+      jid: GROUP,
+      question: "Makan di mana?",
+      options: ["Warteg", "Padang", "Warteg"],
+    });
+
+    expect(sock.sent).toHaveLength(1);
+    expect(sock.sent[0]).toMatchObject({
+      id: pollId,
+      jid: GROUP,
+      content: {
+        poll: {
+          name: "Makan di mana?",
+          values: ["Warteg", "Padang"],
+          selectableCount: 1,
+        },
+      },
+    });
+  });
+
+  test("rejects too few or too many options", async () => {
+    const { sock, polls } = setup();
+    const options = (count: number) =>
+      Array.from({ length: count }, (_, i) => `Opsi ${i + 1}`);
+
+    await expect(
+      polls.create(sock, { jid: GROUP, question: "?", options: ["A", "A"] })
+    ).rejects.toThrow("got 1");
+    await expect(
+      polls.create(sock, {
+        jid: GROUP,
+        question: "?",
+        options: options(MAX_POLL_OPTIONS + 1),
+      })
+    ).rejects.toThrow(`got ${MAX_POLL_OPTIONS + 1}`);
+    expect(sock.sent).toEqual([]);
+  });
+
+  test("tallies decrypted votes, keeping each voter's latest", async () => {
+    const { sock, polls, vote } = setup();
+    const votes: PollVote[] = [];
+    const pollId = await polls.create(
+      sock,
+      {
+        jid: GROUP,
+        question: "Warna?",
+        options: ["Merah", "Biru"],
+        selectableCount: 0,
+      },
+      (vote) => votes.push(vote)
+    );
+
+    polls.recordVote(vote(pollId, "1@s.whatsapp.net", ["Merah"]), sock);
+    polls.recordVote(vote(pollId, "2@s.whatsapp.net", ["Merah", "Biru"]), sock);
+    polls.recordVote(vote(pollId, "1@s.whatsapp.net", ["Biru"]), sock);
+    polls.recordVote(vote(pollId, "3@s.whatsapp.net", []), sock);
+
+    expect(polls.getResult(pollId)).toEqual({
+      pollId,
+      question: "Warna?",
+      tally: [
+        { option: "Merah", voters: ["2@s.whatsapp.net"] },
+        { option: "Biru", voters: ["1@s.whatsapp.net", "2@s.whatsapp.net"] },
+      ],
+      // Taking a vote back does not count as voting
+      totalVoters: 2,
+    });
+    expect(votes.map((v) => v.selected)).toEqual([
+      ["Merah"],
+      ["Merah", "Biru"],
+      ["Biru"],
+      [],
+    ]);
+  });
+
+  test("reads votes signed with the bot's LID", async () => {
+    const { sock, polls, vote } = setup();
+    const pollId = await polls.create(sock, {
+      jid: GROUP,
+      question: "?",
+      options: ["Ya", "Tidak"],
+    });
+
+    expect(
+      polls.recordVote(vote(pollId, "5@lid", ["Ya"], BOT_LID), sock)
+    ).toEqual({ pollId, jid: GROUP, voter: "5@lid", selected: ["Ya"] });
+  });
+
+  test("ignores votes it cannot read", async () => {
+    const { sock, polls, vote } = setup();
+    const pollId = await polls.create(sock, {
+      jid: GROUP,
+      question: "?",
+      options: ["Ya", "Tidak"],
+    });
+    const other = await polls.create(sock, {
+      jid: GROUP,
+      question: "?",
+      options: ["Ya", "Tidak"],
+    });
+
+    // Encrypted for another poll
+    const wrongSecret = vote(other, "1@s.whatsapp.net", ["Ya"]);
+    wrongSecret.message!.pollUpdateMessage!.pollCreationMessageKey!.id = pollId;
+    expect(polls.recordVote(wrongSecret, sock)).toBeUndefined();
+
+    const untracked = vote(pollId, "1@s.whatsapp.net", ["Ya"]);
+    untracked.message!.pollUpdateMessage!.pollCreationMessageKey!.id = "X";
+    expect(polls.recordVote(untracked, sock)).toBeUndefined();
+
+    expect(polls.getResult(pollId)?.totalVoters).toBe(0);
+  });
+
+  test("collects the votes cast while the poll runs", async () => {
+    const { sock, polls, vote } = setup();
+    sock.onMessage((message) => {
+      setTimeout(() =>
+        polls.recordVote(vote(message.id, "1@s.whatsapp.net", ["Tidak"]), sock)
+      );
+    });
+
+    const result = await polls.collect(
+      sock,
+      { jid: GROUP, question: "Lanjut?", options: ["Ya", "Tidak"] },
+      50
+    );
+
+    expect(result.tally).toEqual([
+      { option: "Ya", voters: [] },
+      { option: "Tidak", voters: ["1@s.whatsapp.net"] },
+    ]);
+    // The poll is no longer tracked once collected
+    expect(polls.getResult(result.pollId)).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ChatHarness, textOf } from "./harness/ChatHarness.js";
+
+let chat: ChatHarness;
+
+beforeAll(async () => {
+  chat = await ChatHarness.create();
+});
+
+afterAll(() => chat.close());
+
+describe("rps multiplayer", () => {
+  test("players choose in DM and the result is announced in the group", async () => {
+    const replies = await chat.run([
+      {
+        user: "rps-alice",
+        chat: "rps-arena",
+        text: "!rps start multiplayer",
+        expect: ["Game Rock Paper Scissors Multiplayer dimulai"],
+      },
+      {
+        user: "rps-alice",
+        chat: "rps-arena",
+        text: "!rps join",
+        expect: ["Tidak bisa menjadi player 2 juga"],
+      },
+      {
+        user: "rps-bob",
+        chat: "rps-arena",
+        text: "!rps join",
+        expect: [
+          `${chat.mention("rps-bob")} berhasil bergabung sebagai player 2`,
+        ],
+      },
+      {
+        user: "rps-bob",
+        chat: "rps-arena",
+        text: "!rps batu",
+        expect: ["kirim pilihanmu (!rps [pilihan]) lewat *DM*"],
+      },
+      {
+        user: "rps-alice",
+        chat: "dm",
+        text: "!rps batu",
+        expect: ["Kamu (P1) memilih ✊ Batu"],
+      },
+      {
+        user: "rps-alice",
+        chat: "dm",
+        text: "!rps kertas",
+        expect: ["Kamu sudah memilih"],
+      },
+      {
+        user: "rps-bob",
+        chat: "dm",
+        text: "!rps gunting",
+        expect: [
+          "Kamu (P2) memilih ✌️ Gunting",
+          `Pemenang: ${chat.mention("rps-alice")} (P1)`,
+        ],
+      },
+    ]);
+
+    // Choices are confirmed privately, the result goes to the group
+    const final = replies[replies.length - 1];
+    expect(final.map((m) => m.jid)).toEqual([
+      chat.jid("rps-bob"),
+      chat.chatJid("rps-arena", "rps-bob"),
+    ]);
+    expect(textOf(final[1])).toContain("Hasil Rock Paper Scissors");
+
+    // The game is over for both players
+    await chat.run([
+      {
+        user: "rps-bob",
+        chat: "dm",
+        text: "!rps batu",
+        expect: ["Tidak ada game RPS aktif untukmu"],
+      },
+    ]);
+  });
+
+  test("multiplayer can only start in a group", async () => {
+    await chat.run([
+      {
+        user: "rps-carol",
+        chat: "dm",
+        text: "!rps start multiplayer",
+        expect: ["Mode multiplayer hanya bisa dimulai di grup."],
+      },
+    ]);
+  });
+
+  test("the host stops the game from DM", async () => {
+    await chat.run([
+      {
+        user: "rps-dave",
+        chat: "rps-hall",
+        text: "!rps start multiplayer",
+        expect: ["dimulai oleh"],
+      },
+      {
+        user: "rps-erin",
+        chat: "rps-hall",
+        text: "!rps stop",
+        expect: ["Hanya host"],
+      },
+      {
+        user: "rps-dave",
+        chat: "dm",
+        text: "!rps stop",
+        expect: [
+          "Game RPS Multiplayer dihentikan oleh host",
+          "Game multiplayer berhasil dihentikan.",
+        ],
+      },
+      {
+        user: "rps-erin",
+        chat: "rps-hall",
+        text: "!rps join",
+        expect: ["Tidak ada game RPS multiplayer aktif di grup ini"],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ChatHarness } from "./harness/ChatHarness.js";
+import { requests } from "./harness/http.js";
+import { stubGroq } from "./harness/services.js";
+
+let chat: ChatHarness;
+
+beforeAll(async () => {
+  chat = await ChatHarness.create();
+});
+
+afterAll(() => chat.close());
+
+describe("stubbed services", () => {
+  test("downloader lists the platforms cobalt supports", async () => {
+    await chat.run([
+      {
+        user: "svc-dl",
+        chat: "dm",
+        text: "!dl url",
+        expect: ["Platform yang didukung:\ntiktok, instagram, twitter"],
+      },
+    ]);
+  });
+
+  test("downloader sends the media cobalt returns", async () => {
+    const [replies] = await chat.run([
+      {
+        user: "svc-dl2",
+        chat: "dm",
+        text: "!dl https://vt.tiktok.com/ZSrG9QPK7/",
+      },
+    ]);
+
+    expect(requests.find((r) => r.method === "POST")?.body).toMatchObject({
+      url: "https://vt.tiktok.com/ZSrG9QPK7/",
+    });
+    expect(replies.map((m) => m.content)).toContainEqual({
+      video: { url: "https://cobalt.razik.net/tunnel/media" },
+    });
+  });
+
+  test("ai replies with the Groq completion", async () => {
+    stubGroq("Ibu kota Indonesia adalah Jakarta.");
+    await chat.run([
+      {
+        user: "svc-ai",
+        chat: "dm",
+        text: "!ai apa ibu kota Indonesia?",
+        expect: ["Ibu kota Indonesia adalah Jakarta."],
+      },
+    ]);
+
+    const completion = requests.find((r) => r.url.includes("api.groq.com"));
+    expect(JSON.stringify(completion?.body)).toContain(
+      "apa ibu kota Indonesia?"
+    );
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Preloaded by `bun test` (see bunfig.toml) before any test file, so the
+ * HTTP stubs and MONGO_URI are in place before the bot modules load.
+ *
+ * Suites that need a database call useTestMongo (tests/harness/mongo.ts).
+ * Until then MONGO_URI points nowhere, so the bot falls back to its
+ * defaults quickly instead of waiting for a server.
+ */
+import { afterAll, beforeEach } from "bun:test";
+import { installHttpStubs, resetHttp } from "./harness/http.js";
+import { stopTestMongo } from "./harness/mongo.js";
+import { stubServices } from "./harness/services.js";
+
+installHttpStubs();
+
+process.env.NODE_ENV = "test";
+process.env.GROQ_API_KEY ||= "test";
+process.env.TAVILY_API_KEY ||= "test";
+
+process.env.MONGO_URI =
+  process.env.TEST_MONGO_URI ||
+  "mongodb://127.0.0.1:1/?serverSelectionTimeoutMS=100&connectTimeoutMS=100";
+
+beforeEach(() => {
+  resetHttp();
+  stubServices();
+});
+
+afterAll(async () => {
+  const { closeMongoClient } = await import("../src/core/mongo.js");
+  await closeMongoClient().catch(() => {});
+  await stopTestMongo();
+});
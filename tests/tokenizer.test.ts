@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { joinTokens, tokenize } from "../src/core/tokenizer.js";
+
+const values = (input: string) => tokenize(input).map((token) => token.value);
+
+describe("tokenize", () => {
+  test("splits on any whitespace", () => {
+    expect(values("  one two\tthree\nfour  ")).toEqual([
+      "one",
+      "two",
+      "three",
+      "four",
+    ]);
+    expect(values("   ")).toEqual([]);
+  });
+
+  test("keeps quoted text together, including newlines", () => {
+    expect(values(`say "hello world" 'and\nbye'`)).toEqual([
+      "say",
+      "hello world",
+      "and\nbye",
+    ]);
+    expect(values(`“smart quotes” ‘work too’`)).toEqual([
+      "smart quotes",
+      "work too",
+    ]);
+    expect(values(`"" x`)).toEqual(["", "x"]);
+  });
+
+  test("records offsets and whether a token was quoted", () => {
+    expect(tokenize(`a "b c" d`)).toEqual([
+      { value: "a", start: 0, end: 1, quoted: false },
+      { value: "b c", start: 2, end: 7, quoted: true },
+      { value: "d", start: 8, end: 9, quoted: false },
+    ]);
+  });
+
+  test("only treats quotes that open a token as quotes", () => {
+    expect(values("don't stop")).toEqual(["don't", "stop"]);
+    expect(values(`say"hi there"`)).toEqual([`say"hi`, `there"`]);
+  });
+
+  test("treats an unterminated quote as a literal character", () => {
+    expect(values(`"hello world`)).toEqual([`"hello`, "world"]);
+  });
+
+  test("resolves escapes inside quotes", () => {
+    expect(values(`"line\\nbreak\\ttab \\"quote\\" \\\\"`)).toEqual([
+      'line\nbreak\ttab "quote" \\',
+    ]);
+  });
+
+  test("escapes quotes, backslashes and whitespace outside quotes", () => {
+    expect(values(`\\"not quoted\\" a\\ b c\\\\d`)).toEqual([
+      `"not`,
+      `quoted"`,
+      "a b",
+      "c\\d",
+    ]);
+    // Other backslashes are kept as they are
+    expect(values("C:\\path")).toEqual(["C:\\path"]);
+  });
+});
+
+describe("joinTokens", () => {
+  test("round-trips through tokenize", () => {
+    const original = [
+      "plain",
+      "two words",
+      "",
+      `say "hi"`,
+      "back\\slash",
+      "a\nb",
+    ];
+    expect(values(joinTokens(original))).toEqual(original);
+  });
+
+  test("leaves simple values unquoted", () => {
+    expect(joinTokens(["a", "b"])).toBe("a b");
+  });
+});